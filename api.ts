@@ -0,0 +1,111 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/*
+ * Lets other plugins show their own notifications through ToastNotifications, so they share its look, position,
+ * history and quiet hours.
+ *
+ * import { raiseToast } from "plugins/toastNotifications/api";
+ *
+ * const toast = raiseToast("Reminders", {
+ *     title: "Reminder",
+ *     body: "Stand up and stretch!",
+ *     attachments: 0
+ * });
+ *
+ * toast?.update({ body: "Seriously, stand up." });
+ * toast?.pin();
+ *
+ * Users can disable or rate limit each source from this plugin's settings.
+ */
+
+import { Settings } from "@api/Settings";
+
+import { dismissNotification, hasNotification, NotificationData, updateNotification } from "./components/Notifications";
+import { deliverNotification, settings } from "./index";
+import { redactNotification } from "./messageBody";
+import { applyPrivacyProfile } from "./privacy";
+import { getQuietTreatment } from "./quietHours";
+import { QuietTreatment, SourceSettings } from "./types";
+
+export type { NotificationAction, NotificationData } from "./components/Notifications";
+
+export interface ToastHandle {
+    /** Unique key of the notification. */
+    readonly key: string;
+    /** Resolves once the notification has been closed. */
+    readonly closed: Promise<void>;
+    /** Updates the contents of the notification in place, restarting its timeout. */
+    update(data: Partial<NotificationData>): void;
+    /** Closes the notification. */
+    dismiss(): void;
+    /** Keeps the notification open until it is dismissed, or lets it time out again. */
+    pin(pinned?: boolean): void;
+}
+
+const DEFAULT_SOURCE_SETTINGS: SourceSettings = { enabled: true, rateLimit: 0 };
+
+const recentToasts = new Map<string, number[]>();
+let toastID = 0;
+
+function getSourceSettings(source: string): SourceSettings {
+    const sources = settings.store.sources;
+    if (!sources[source]) settings.store.sources = { ...sources, [source]: DEFAULT_SOURCE_SETTINGS };
+    return settings.store.sources[source];
+}
+
+function isRateLimited(source: string, rateLimit: number): boolean {
+    const now = Date.now();
+    const timestamps = (recentToasts.get(source) ?? []).filter(t => now - t < 60_000);
+    recentToasts.set(source, timestamps);
+
+    if (rateLimit && timestamps.length >= rateLimit) return true;
+    timestamps.push(now);
+    return false;
+}
+
+/**
+ * Shows a notification on behalf of another plugin.
+ * @param source A stable, human readable identifier of the plugin or feature raising the notification.
+ * @param notification The notification to show.
+ * @returns A handle to control the notification, or null if it was not shown as a toast because ToastNotifications
+ * is disabled, the user disabled the source, the source exceeded its rate limit, the privacy profile or quiet hours
+ * dropped or held it back, the stack was full or it was shown as a desktop notification instead.
+ */
+export function raiseToast(source: string, notification: NotificationData): ToastHandle | null {
+    if (!Settings.plugins.ToastNotifications?.enabled) return null;
+
+    const sourceSettings = getSourceSettings(source);
+    if (!sourceSettings.enabled || isRateLimited(source, sourceSettings.rateLimit)) return null;
+
+    const key = `api-${toastID++}`;
+    let data: NotificationData = { ...notification, source };
+    const shown = { ...data };
+    const closed = deliverNotification(shown, key);
+
+    // Toasts are queued synchronously, so anything not in the stack by now was never shown as one.
+    if (!closed || !hasNotification(key)) return null;
+
+    return {
+        key,
+        closed,
+        update: update => {
+            data = { ...data, ...update };
+
+            // Hide the updated contents the same way the toast was hidden when it was raised.
+            const updated = { ...data };
+            if (!applyPrivacyProfile(updated)) return;
+            if (shown.redacted || getQuietTreatment() === QuietTreatment.REDACT) redactNotification(updated);
+
+            updateNotification(key, updated);
+        },
+        dismiss: () => dismissNotification(key),
+        pin: (pinned = true) => {
+            data.permanent = pinned;
+            updateNotification(key, { permanent: pinned });
+        }
+    };
+}
@@ -0,0 +1,148 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { findByPropsLazy } from "@webpack";
+import { ChannelStore, SelectedChannelStore, UserStore } from "@webpack/common";
+import { User } from "discord-types/general";
+
+import { dismissNotification, NotificationData, updateNotification } from "./components/Notifications";
+import { deliverNotification, getAvatarURL, openPrivateChannel, settings } from "./index";
+import { applyPrivacyProfile } from "./privacy";
+import { applyRuleResult, evaluateRules } from "./rules";
+import { playNotificationSound } from "./sounds";
+import { NotificationCategory, RuleAction } from "./types";
+
+const VoiceActionCreators = findByPropsLazy("selectVoiceChannel");
+const CallActionCreators = findByPropsLazy("stopRinging", "ring");
+
+const ringingCalls = new Set<string>();
+const callers = new Map<string, User>();
+
+function getCallKey(channelId: string): string {
+    return `call-${channelId}`;
+}
+
+function getCaller(channelId: string): User | undefined {
+    const channel = ChannelStore.getChannel(channelId);
+    return callers.get(channelId) ?? (channel?.isDM() ? UserStore.getUser(channel.getRecipientId()) : undefined);
+}
+
+function getGroupName(channelId: string): string | undefined {
+    const channel = ChannelStore.getChannel(channelId);
+    if (!channel?.isGroupDM()) return;
+    return channel.name?.trim() || channel.rawRecipients?.slice(0, 3).map(e => e.username).join(", ");
+}
+
+function getCallNotification(channelId: string, caller?: User): NotificationData {
+    const name = caller?.username ?? "Someone";
+    const groupName = getGroupName(channelId);
+
+    return {
+        title: groupName ? `${name} is calling (${groupName})` : `${name} is calling you`,
+        author: caller?.username,
+        location: groupName,
+        formatTitle: (author, location) => location ? `${author} is calling (${location})` : `${author} is calling you`,
+        icon: caller && getAvatarURL(caller),
+        body: "Incoming call",
+        attachments: 0,
+        permanent: true,
+        category: NotificationCategory.CALL,
+        channelId,
+        userId: caller?.id,
+        onClick: () => openPrivateChannel(channelId),
+        actions: [
+            {
+                label: "Join",
+                onClick: () => {
+                    VoiceActionCreators.selectVoiceChannel(channelId);
+                    openPrivateChannel(channelId);
+                }
+            },
+            { label: "Decline", onClick: () => CallActionCreators.stopRinging(channelId) }
+        ]
+    };
+}
+
+/**
+ * Remembers who started the call in a channel, updating the ringing toast if it's already shown.
+ * A toast shown before the caller was known also gets the caller's rules applied now, closing it if they block the caller.
+ */
+export function recordCaller(channelId: string, caller: User) {
+    const wasKnown = !!getCaller(channelId);
+    callers.set(channelId, caller);
+    if (!ringingCalls.has(channelId)) return;
+
+    const key = getCallKey(channelId);
+    const notification = getCallNotification(channelId, caller);
+
+    if (!wasKnown) {
+        const rules = evaluateRules({ userId: caller.id, channelId });
+        // Keep tracking the call, so the blocked toast doesn't come back on the next ringing update.
+        if (rules.verdict === RuleAction.BLOCK) {
+            dismissNotification(key);
+            return;
+        }
+
+        applyRuleResult(notification, rules);
+        notification.permanent = true;
+    }
+
+    // Hide the caller the same way the toast was hidden when it was shown.
+    if (!applyPrivacyProfile(notification)) return;
+
+    const updated = updateNotification(key, {
+        title: notification.title,
+        icon: notification.icon,
+        userId: caller.id,
+        ...(notification.redacted && { body: notification.body, richBody: notification.richBody, redacted: true })
+    });
+
+    // The toast already played the call sound, only a sound the caller's rules pick is worth playing now.
+    if (updated && !wasKnown && notification.sound) playNotificationSound(notification);
+}
+
+function showCallToast(channelId: string) {
+    const caller = getCaller(channelId);
+    const rules = caller && evaluateRules({ userId: caller.id, channelId });
+    if (rules?.verdict === RuleAction.BLOCK) return;
+
+    const notification = getCallNotification(channelId, caller);
+
+    if (rules) applyRuleResult(notification, rules);
+    // A ringing call should stay up until it stops ringing, whatever the rules say.
+    notification.permanent = true;
+
+    deliverNotification(notification, getCallKey(channelId));
+}
+
+/**
+ * Closes the toast of a call wherever it is shown: in the stack, waiting for a spot in it, or as a desktop notification,
+ * which has no Join or Decline buttons and would otherwise stay up for good.
+ */
+function dismissCallToast(channelId: string) {
+    ringingCalls.delete(channelId);
+    callers.delete(channelId);
+    dismissNotification(getCallKey(channelId));
+}
+
+export function handleCallRinging(channelId: string, ringing: string[] = []) {
+    if (!settings.store.callToasts) return;
+
+    const isRinging = ringing.includes(UserStore.getCurrentUser().id);
+    if (isRinging && !ringingCalls.has(channelId)) {
+        // Track the call even when no toast is shown, so a dismissed toast doesn't come back on the next update.
+        ringingCalls.add(channelId);
+        if (channelId === SelectedChannelStore.getChannelId()) return;
+        showCallToast(channelId);
+    } else if (!isRinging && ringingCalls.has(channelId)) {
+        dismissCallToast(channelId);
+    }
+}
+
+export function handleCallEnded(channelId: string) {
+    if (ringingCalls.has(channelId)) dismissCallToast(channelId);
+    else callers.delete(channelId);
+}
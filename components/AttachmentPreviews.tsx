@@ -0,0 +1,67 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classes } from "@utils/misc";
+import { React } from "@webpack/common";
+
+import { EmbedPreview, MediaPreview } from "./Notifications";
+
+const MAX_GRID_ITEMS = 4;
+
+function MediaItem({ preview, overflow }: { preview: MediaPreview; overflow: number; }) {
+    return (
+        <div className={classes("toastnotifications-media-item", `toastnotifications-media-${preview.type}`, preview.blurred && "toastnotifications-blurred")}>
+            <img src={preview.url} alt="" draggable={false} />
+            {preview.type === "video" && (
+                <svg className="toastnotifications-media-play" width="24" height="24" viewBox="0 0 24 24" aria-hidden="true">
+                    <path fill="currentColor" d="M8 5v14l11-7z" />
+                </svg>
+            )}
+            {overflow > 0 && <div className="toastnotifications-media-overflow">+{overflow}</div>}
+        </div>
+    );
+}
+
+function EmbedCard({ embed }: { embed: EmbedPreview; }) {
+    return (
+        <div className="toastnotifications-embed-card">
+            <div className="toastnotifications-embed-text">
+                {embed.siteName && <span className="toastnotifications-embed-site">{embed.siteName}</span>}
+                <span className="toastnotifications-embed-title">{embed.title}</span>
+            </div>
+            {embed.thumbnail && (
+                <img
+                    className={classes("toastnotifications-embed-thumbnail", embed.blurred && "toastnotifications-blurred")}
+                    src={embed.thumbnail}
+                    alt=""
+                    draggable={false}
+                />
+            )}
+        </div>
+    );
+}
+
+export default function AttachmentPreviews({ media = [], embeds = [] }: { media?: MediaPreview[]; embeds?: EmbedPreview[]; }) {
+    const visibleMedia = media.slice(0, MAX_GRID_ITEMS);
+    const overflow = media.length - visibleMedia.length;
+
+    return (
+        <>
+            {!!visibleMedia.length && (
+                <div className={classes("toastnotifications-media-grid", visibleMedia.length > 1 && "toastnotifications-media-grid-multiple")}>
+                    {visibleMedia.map((preview, i) => (
+                        <MediaItem
+                            key={i}
+                            preview={preview}
+                            overflow={i === visibleMedia.length - 1 ? overflow : 0}
+                        />
+                    ))}
+                </div>
+            )}
+            {embeds.map((embed, i) => <EmbedCard key={i} embed={embed} />)}
+        </>
+    );
+}
@@ -0,0 +1,136 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { findExportedComponentLazy } from "@webpack";
+import { Button, ChannelStore, Forms, React, Select, Text, useMemo, UserStore, useState } from "@webpack/common";
+
+import { clearHistory, getHistory, HistoryEntry } from "../history";
+import { openHistoryEntry } from "../index";
+
+const HeaderBarIcon = findExportedComponentLazy("Icon", "Divider");
+
+function getChannelLabel(channelId: string): string {
+    const channel = ChannelStore.getChannel(channelId);
+    if (!channel) return channelId;
+    if (channel.guild_id) return `#${channel.name}`;
+    return channel.name?.trim() || channel.rawRecipients?.map(e => e.username).join(", ") || channelId;
+}
+
+function getUserLabel(userId: string): string {
+    return UserStore.getUser(userId)?.username ?? userId;
+}
+
+function uniqueOptions(values: (string | undefined)[], getLabel: (id: string) => string, allLabel: string) {
+    const ids = [...new Set(values.filter(Boolean) as string[])];
+    return [
+        { label: allLabel, value: "" },
+        ...ids.map(id => ({ label: getLabel(id), value: id }))
+    ];
+}
+
+function HistoryEntryRow({ entry, onOpen }: { entry: HistoryEntry; onOpen(): void; }) {
+    return (
+        <button className="toastnotifications-history-entry" onClick={onOpen}>
+            {entry.icon && <img className="toastnotifications-history-icon" src={entry.icon} alt="" />}
+            <div className="toastnotifications-history-content">
+                <div className="toastnotifications-history-header">
+                    <Text variant="text-md/semibold">{entry.title}</Text>
+                    <Text variant="text-xs/normal" className="toastnotifications-history-time">
+                        {new Date(entry.timestamp).toLocaleString()}
+                    </Text>
+                </div>
+                {entry.body && <Text variant="text-sm/normal">{entry.body}</Text>}
+            </div>
+        </button>
+    );
+}
+
+function HistoryModal({ modalProps }: { modalProps: ModalProps; }) {
+    const [entries, setEntries] = useState(getHistory);
+    const [channelFilter, setChannelFilter] = useState("");
+    const [userFilter, setUserFilter] = useState("");
+
+    const channelOptions = useMemo(() => uniqueOptions(entries.map(e => e.channelId), getChannelLabel, "All channels"), [entries]);
+    const userOptions = useMemo(() => uniqueOptions(entries.map(e => e.userId), getUserLabel, "All users"), [entries]);
+
+    const filtered = entries.filter(e =>
+        (!channelFilter || e.channelId === channelFilter) &&
+        (!userFilter || e.userId === userFilter)
+    );
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Notification History</Text>
+                <ModalCloseButton onClick={modalProps.onClose} />
+            </ModalHeader>
+            <ModalContent>
+                <div className="toastnotifications-history-filters">
+                    <Select
+                        options={channelOptions}
+                        isSelected={v => v === channelFilter}
+                        select={setChannelFilter}
+                        serialize={String}
+                    />
+                    <Select
+                        options={userOptions}
+                        isSelected={v => v === userFilter}
+                        select={setUserFilter}
+                        serialize={String}
+                    />
+                </div>
+                {filtered.length
+                    ? filtered.map(entry => (
+                        <HistoryEntryRow
+                            key={entry.id}
+                            entry={entry}
+                            onOpen={() => {
+                                modalProps.onClose();
+                                openHistoryEntry(entry);
+                            }}
+                        />
+                    ))
+                    : <Forms.FormText className="toastnotifications-history-empty">No notifications to show.</Forms.FormText>}
+            </ModalContent>
+            <ModalFooter>
+                <Button
+                    color={Button.Colors.RED}
+                    disabled={!entries.length}
+                    onClick={async () => {
+                        await clearHistory();
+                        setEntries(getHistory());
+                    }}
+                >
+                    Clear History
+                </Button>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export function openHistoryModal() {
+    openModal(props => <HistoryModal modalProps={props} />);
+}
+
+function HistoryIcon({ className }: { className?: string; }) {
+    return (
+        <svg className={className} width="24" height="24" viewBox="0 0 24 24" aria-hidden="true">
+            <path fill="currentColor" d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6a7 7 0 1 1 2.05 4.95l-1.42 1.42A9 9 0 1 0 13 3Zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12Z" />
+        </svg>
+    );
+}
+
+export function HistoryButton() {
+    return (
+        <HeaderBarIcon
+            className="toastnotifications-history-button"
+            onClick={openHistoryModal}
+            tooltip="Notification History"
+            icon={HistoryIcon}
+        />
+    );
+}
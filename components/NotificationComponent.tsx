@@ -20,10 +20,40 @@ import "./styles.css";
 
 import ErrorBoundary from "@components/ErrorBoundary";
 import { classes } from "@utils/misc";
-import { React, useEffect, useMemo, useState } from "@webpack/common";
+import { React, useEffect, useLayoutEffect, useMemo, useReducer, useRef, useState } from "@webpack/common";
+import type { ReactNode } from "react";
 
-import { settings as PluginSettings } from "../index";
+import { getAccentColor, settings as PluginSettings } from "../index";
+import AttachmentPreviews from "./AttachmentPreviews";
 import { NotificationData } from "./Notifications";
+import QuickReply from "./QuickReply";
+
+const CHAT_AREA_MARGIN = 16; // Distance between the notifications and the edges of the chat area.
+
+/**
+ * getChatAreaRect()
+ * @returns {DOMRect | undefined} The bounds of the message list of the open chat, if there is one.
+ */
+function getChatAreaRect(): DOMRect | undefined {
+    return document.querySelector("[class*='messagesWrapper_']")?.getBoundingClientRect();
+}
+
+/**
+ * getPositionStyle()
+ * Places an element of the stack at the given offset from the configured screen edge, or from the bottom of the chat area.
+ * @returns {React.CSSProperties} The inline position style.
+ */
+export function getPositionStyle(offset: number): React.CSSProperties {
+    const position = PluginSettings.store.position || "bottom-left";
+    const chatArea = position === "chat-area" ? getChatAreaRect() : undefined;
+
+    if (chatArea) return {
+        right: `${window.innerWidth - chatArea.right + CHAT_AREA_MARGIN}px`,
+        bottom: `${window.innerHeight - chatArea.bottom + offset}px`
+    };
+
+    return position.includes("top") ? { top: `${offset}px` } : { bottom: `${offset}px` };
+}
 
 export default ErrorBoundary.wrap(function NotificationComponent({
     title,
@@ -31,15 +61,40 @@ export default ErrorBoundary.wrap(function NotificationComponent({
     richBody,
     icon,
     image,
+    media,
+    embeds,
     permanent,
+    timeout,
     dismissOnClick,
     index,
+    offset,
+    exiting,
+    onHeightChange,
+    category,
+    reason,
     onClick,
     onClose,
-    attachments
-}: NotificationData & { index?: number; }) {
+    onReply,
+    actions,
+    id,
+    attachments,
+    stackedLines,
+    stackedCount,
+    updatedAt
+}: NotificationData & {
+    id?: string;
+    index?: number;
+    offset?: number;
+    exiting?: boolean;
+    onHeightChange?(height: number): void;
+    stackedLines?: ReactNode[];
+    stackedCount?: number;
+    updatedAt?: number;
+}) {
     const [isHover, setIsHover] = useState(false);
     const [elapsed, setElapsed] = useState(0);
+    const [isReplying, setIsReplying] = useState(false);
+    const rootRef = useRef<HTMLButtonElement>(null);
 
     let renderBody: boolean = true;
     let footer: boolean = false;
@@ -53,26 +108,42 @@ export default ErrorBoundary.wrap(function NotificationComponent({
     // Precompute appearance settings.
     const AppearanceSettings = {
         position: `toastnotifications-position-${PluginSettings.store.position || "bottom-left"}`,
-        timeout: (PluginSettings.store.timeout * 1000) || 5000,
+        preset: `toastnotifications-preset-${PluginSettings.store.layoutPreset}`,
+        animation: `toastnotifications-animation-${PluginSettings.store.animationStyle}`,
+        followChat: PluginSettings.store.position === "chat-area",
+        timeout: ((timeout ?? PluginSettings.store.timeout) * 1000) || 5000,
         opacity: PluginSettings.store.opacity / 100,
     };
 
-    const start = useMemo(() => Date.now(), [isHover]); // Reset the timer when the user hovers over the notification.
+    const start = useMemo(() => Date.now(), [isHover, isReplying, updatedAt]); // Reset the timer when the user hovers over the notification, stops replying or a message is stacked onto it.
 
-    // Precompute the position style.
-    const positionStyle = useMemo(() => {
-        if (index === undefined) return {};
-        const isTopPosition = AppearanceSettings.position.includes("top");
-        const actualHeight = 115; // Update this with the actual height including margin
-        const effectiveIndex = index % PluginSettings.store.maxNotifications;
-        const offset = 10 + (effectiveIndex * actualHeight); // 10 is the base offset
+    // Compute the position style on every render, as the chat area moves with the layout.
+    // The offset is derived from the measured heights of the newer notifications.
+    const positionStyle = offset === undefined ? {} : getPositionStyle(offset);
+
+    // Follow the chat area when the window is resized.
+    const [, forceUpdate] = useReducer((x: number) => x + 1, 0);
+    useEffect(() => {
+        if (!AppearanceSettings.followChat) return;
 
-        return isTopPosition ? { top: `${offset}px` } : { bottom: `${offset}px` };
-    }, [index, AppearanceSettings.position]);
+        window.addEventListener("resize", forceUpdate);
+        return () => window.removeEventListener("resize", forceUpdate);
+    }, []);
+
+    // Report the rendered height so the notifications stacked on top of this one can be offset by it.
+    useLayoutEffect(() => {
+        const element = rootRef.current;
+        if (!element || !onHeightChange) return;
+
+        const observer = new ResizeObserver(() => onHeightChange(element.offsetHeight));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
 
     // Handle notification timeout.
     useEffect(() => {
-        if (isHover || permanent) return void setElapsed(0);
+        if (exiting) return;
+        if (isHover || isReplying || permanent) return void setElapsed(0);
 
         const intervalId = setInterval(() => {
             const elapsed = Date.now() - start;
@@ -83,15 +154,22 @@ export default ErrorBoundary.wrap(function NotificationComponent({
         }, 10);
 
         return () => clearInterval(intervalId);
-    }, [isHover]);
+    }, [isHover, isReplying, updatedAt, exiting]);
 
     const timeoutProgress = elapsed / AppearanceSettings.timeout;
 
     // Render the notification.
     return (
         <button
+            ref={rootRef}
             style={positionStyle}
-            className={classes("toastnotifications-notification-root", AppearanceSettings.position)}
+            className={classes(
+                "toastnotifications-notification-root",
+                AppearanceSettings.position,
+                AppearanceSettings.preset,
+                AppearanceSettings.animation,
+                exiting && "toastnotifications-notification-exiting"
+            )}
             onClick={() => {
                 onClick?.();
                 if (dismissOnClick !== false)
@@ -102,14 +180,26 @@ export default ErrorBoundary.wrap(function NotificationComponent({
                 e.stopPropagation();
                 onClose!();
             }}
+            onKeyDown={e => {
+                if (e.key !== "Escape" && e.key !== "Delete") return;
+                e.preventDefault();
+                e.stopPropagation();
+                onClose!();
+            }}
             onMouseEnter={() => setIsHover(true)}
             onMouseLeave={() => setIsHover(false)}
+            onFocus={() => setIsHover(true)}
+            onBlur={() => setIsHover(false)}
+            data-toastnotifications-key={id}
+            aria-labelledby={`toastnotifications-${id}-title`}
+            aria-describedby={`toastnotifications-${id}-body`}
         >
             <div className="toastnotifications-notification">
                 {icon && <img className="toastnotifications-notification-icon" src={icon} alt="User Avatar" />}
                 <div className="toastnotifications-notification-content">
                     <div className="toastnotifications-notification-header">
-                        <h2 className="toastnotifications-notification-title">{title}</h2>
+                        <h2 id={`toastnotifications-${id}-title`} className="toastnotifications-notification-title">{title}</h2>
+                        {!!stackedCount && <span className="toastnotifications-notification-stack-count">+{stackedCount} more</span>}
                         <button
                             className="toastnotifications-notification-close-btn"
                             onClick={e => {
@@ -125,16 +215,43 @@ export default ErrorBoundary.wrap(function NotificationComponent({
                         </button>
                     </div>
                     <div>
-                        {renderBody ? richBody ?? <p className="toastnotifications-notification-p">{body}</p> : null}
-                        {PluginSettings.store.renderImages && image && <img className="toastnotifications-notification-img" src={image} alt="ToastNotification Image" />}
+                        <div id={`toastnotifications-${id}-body`}>
+                            {reason && <p className="toastnotifications-notification-reason">{reason}</p>}
+                            {stackedLines?.map((line, i) => <div key={i} className="toastnotifications-notification-stacked-line">{line}</div>)}
+                            {renderBody ? richBody ?? <p className="toastnotifications-notification-p">{body}</p> : null}
+                        </div>
+                        {PluginSettings.store.renderImages && (
+                            media?.length || embeds?.length
+                                ? <AttachmentPreviews media={media} embeds={embeds} />
+                                : image && <img className="toastnotifications-notification-img" src={image} alt="ToastNotification Image" />
+                        )}
                         {footer && <p className="toastnotifications-notification-footer">{`${attachments} attachment${attachments > 1 ? "s" : ""} ${attachments > 1 ? "were" : "was"} sent.`}</p>}
+                        {!!actions?.length && (
+                            <div className="toastnotifications-notification-actions">
+                                {actions.map(action => (
+                                    <button
+                                        key={action.label}
+                                        className="toastnotifications-notification-action"
+                                        onClick={e => {
+                                            e.preventDefault();
+                                            e.stopPropagation();
+                                            action.onClick();
+                                            onClose!();
+                                        }}
+                                    >
+                                        {action.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {onReply && <QuickReply onReply={onReply} onActiveChange={setIsReplying} />}
                     </div>
                 </div>
             </div>
-            {AppearanceSettings.timeout !== 0 && !permanent && (
+            {AppearanceSettings.timeout !== 0 && !permanent && !isReplying && (
                 <div
                     className="toastnotifications-notification-progressbar"
-                    style={{ width: `${(1 - timeoutProgress) * 100}%`, backgroundColor: "var(--brand-experiment)" }}
+                    style={{ width: `${(1 - timeoutProgress) * 100}%`, backgroundColor: getAccentColor(category) }}
                 />
             )}
         </button>
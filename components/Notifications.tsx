@@ -21,13 +21,42 @@ import * as Common from "@webpack/common";
 import type { JSX, ReactNode } from "react";
 import type { Root } from "react-dom/client";
 
+import { addToHistory } from "../history";
 import { settings as PluginSettings } from "../index";
+import { closeNativeNotification, shouldUseNativeNotification, showNativeNotification } from "../native";
+import { playNotificationSound } from "../sounds";
+import { NotificationCategory, OverflowBehavior } from "../types";
 import NotificationComponent from "./NotificationComponent";
+import PendingIndicator from "./PendingIndicator";
+
+interface PendingNotification {
+    key: string;
+    notification: NotificationData;
+    resolve(): void; // Resolves the promise returned by showNotification.
+}
 
 let NotificationQueue: JSX.Element[] = [];
+let PendingQueue: PendingNotification[] = []; // Notifications waiting for a free spot in the stack, oldest first.
+const NotificationHeights = new Map<string, number>();
+const ExitingNotifications = new Map<string, () => void>(); // Finish removing a notification that is playing its exit animation.
 let notificationID = 0;
 let RootContainer: Root;
 
+const MAX_STACKED_LINES = 3;
+const BASE_OFFSET = 10; // Distance between the screen edge and the first notification.
+const NOTIFICATION_GAP = 10; // Distance between two notifications.
+const ESTIMATED_HEIGHT = 105; // Height used until a notification has been measured.
+
+interface NotificationGroup {
+    key: string; // Key of the toast the channel's notifications are stacked onto.
+    body: ReactNode; // Rendered body of the most recent notification in the stack.
+    lines: ReactNode[]; // Rendered bodies of the previous notifications, oldest first.
+    count: number; // Number of notifications merged into the toast.
+    callbacks: (() => void)[]; // Close callbacks of the merged notifications.
+}
+
+const NotificationGroups = new Map<string, NotificationGroup>();
+
 /**
  * getNotificationContainer()
  * Gets the root container for the notifications, creating it if it doesn't exist.
@@ -37,6 +66,11 @@ function getNotificationContainer() {
     if (!RootContainer) {
         const container = document.createElement("div");
         container.id = "toastnotifications-container";
+        // Announce new notifications to screen readers.
+        container.setAttribute("role", "region");
+        container.setAttribute("aria-label", "Notifications");
+        container.setAttribute("aria-live", "polite");
+        container.setAttribute("aria-relevant", "additions");
         document.body.append(container);
         RootContainer = Common.createRoot(container);
     }
@@ -44,65 +78,370 @@ function getNotificationContainer() {
     return RootContainer;
 }
 
+export interface NotificationAction {
+    label: string; // Text of the button.
+    onClick(): unknown; // Called when the button is clicked, after which the notification is dismissed.
+}
+
+export interface MediaPreview {
+    type: "image" | "video" | "sticker";
+    url: string; // Image to show, the poster frame for videos.
+    blurred: boolean; // Whether the preview is a spoiler or NSFW and should stay blurred until hovered.
+}
+
+export interface EmbedPreview {
+    title?: string;
+    siteName?: string;
+    thumbnail?: string;
+    blurred: boolean;
+}
+
 export interface NotificationData {
     title: string; // Title to display in the notification.
+    author?: string; // Name of the user in the title, hidden by privacy profiles.
+    location?: string; // Channel, thread or group name in the title, hidden by privacy profiles.
+    formatTitle?(author: string, location?: string): string; // Builds the title from its parts, so they can be hidden.
+    formatBody?(author: string, location?: string): string; // Same as formatTitle, for bodies naming the author or location.
     body: string; // Notification body text.
     richBody?: ReactNode; // Same as body, though a rich ReactNode to be rendered within the notification.
     icon?: string; // Avatar image of the message author or source.
     image?: string; // Large image to display in the notification for attachments.
+    media?: MediaPreview[]; // Attachment, sticker and media embed previews, shown in place of the image.
+    embeds?: EmbedPreview[]; // Link embeds shown as compact cards.
     permanent?: boolean; // Whether or not the notification should be permanent or timeout.
+    timeout?: number; // Time in seconds the notification is shown for, overriding the timeout setting.
     dismissOnClick?: boolean; // Whether or not the notification should be dismissed when clicked.
     attachments: number;
+    channelId?: string; // Channel the notification originated from, used to reopen it from the history.
+    guildId?: string; // Guild of the originating channel, if any.
+    userId?: string; // User the notification is about.
+    messageId?: string; // Most recent message shown in the notification, used to dismiss it once read.
+    source?: string; // Identifier of the plugin that raised the notification, if not this one.
+    summary?: boolean; // Whether the notification summarizes a burst of messages, which is never stacked.
+    redacted?: boolean; // Whether the body has been redacted, so edits to the message are redacted too.
+    category?: NotificationCategory; // What kind of event raised the notification.
+    reason?: string; // Why the notification was shown, such as the kind of mention, displayed above the body.
+    sound?: string; // Sound to play instead of the category's sound.
+    silent?: boolean; // Whether or not to skip playing a sound, such as when Discord already plays its own.
     onClick?(): void;
     onClose?(): void;
+    actions?: NotificationAction[]; // Buttons rendered below the notification body.
+    onReply?(content: string): Promise<unknown>; // Sends a quick reply from the notification, shows the reply field when set.
 }
 
-export async function showNotification(notification: NotificationData) {
+/**
+ * getVisibleNotificationKeys()
+ * @returns {string[]} The keys of the visible notifications, newest first.
+ */
+export function getVisibleNotificationKeys(): string[] {
+    return NotificationQueue.filter(n => !n.props.exiting).map(n => n.key as string).reverse();
+}
+
+/**
+ * findNotifications()
+ * Finds the visible and pending notifications matching the predicate.
+ * @returns {{ key: string; notification: NotificationData; }[]} The matching notifications and their keys.
+ */
+export function findNotifications(predicate: (notification: NotificationData) => boolean) {
+    return [
+        ...NotificationQueue
+            .filter(n => !n.props.exiting && predicate(n.props))
+            .map(n => ({ key: n.key as string, notification: n.props as NotificationData })),
+        ...PendingQueue
+            .filter(p => predicate(p.notification))
+            .map(({ key, notification }) => ({ key, notification }))
+    ];
+}
+
+/**
+ * hasNotification()
+ * @returns {boolean} Whether a toast with the key is visible or waiting for a spot in the stack.
+ */
+export function hasNotification(key: string): boolean {
+    return NotificationQueue.some(n => n.key === key && !n.props.exiting) || PendingQueue.some(p => p.key === key);
+}
+
+export function dismissNotification(key: string) {
+    if (closeNativeNotification(key)) return;
+
+    const pending = PendingQueue.find(p => p.key === key);
+    if (pending) {
+        PendingQueue = PendingQueue.filter(p => p !== pending);
+        closePendingNotification(pending);
+        renderNotifications(getNotificationContainer());
+        return;
+    }
+
+    NotificationQueue.find(n => n.key === key)?.props.onClose();
+}
+
+export function dismissAllNotifications() {
+    clearPendingNotifications();
+    [...NotificationQueue].forEach(n => n.props.onClose());
+}
+
+function closePendingNotification({ notification, resolve }: PendingNotification) {
+    notification.onClose?.();
+    resolve();
+}
+
+/**
+ * clearPendingNotifications()
+ * Discards every notification waiting for a spot in the stack.
+ */
+function clearPendingNotifications() {
+    const pending = PendingQueue;
+    PendingQueue = [];
+    pending.forEach(closePendingNotification);
+    renderNotifications(getNotificationContainer());
+}
+
+/**
+ * showPendingNotifications()
+ * Moves pending notifications into the stack, either until it is full again or all of them when expanded.
+ */
+function showPendingNotifications(all = false) {
     const root = getNotificationContainer();
-    const thisNotificationID = notificationID++;
 
-    return new Promise<void>(resolve => {
-        const ToastNotification = (
-            <NotificationComponent
-                key={thisNotificationID.toString()}
-                index={NotificationQueue.length}
-                {...notification}
-                onClose={() => {
+    while (PendingQueue.length && (all || getVisibleCount() < PluginSettings.store.maxNotifications)) {
+        const { key, notification, resolve } = PendingQueue.shift()!;
+        displayNotification(root, notification, key, resolve);
+    }
+
+    renderNotifications(root);
+}
+
+function getVisibleCount(): number {
+    return NotificationQueue.filter(n => !n.props.exiting).length;
+}
+
+/**
+ * updateNotification()
+ * Updates the contents of a visible notification in place and restarts its timeout.
+ * @returns {boolean} Whether the notification was visible.
+ */
+export function updateNotification(key: string, data: Partial<NotificationData>): boolean {
+    const { onClose, ...props } = data;
+
+    const pending = PendingQueue.find(p => p.key === key);
+    if (pending) {
+        pending.notification = { ...pending.notification, ...props };
+        return true;
+    }
+
+    const index = NotificationQueue.findIndex(n => n.key === key && !n.props.exiting);
+    if (index === -1) return false;
+
+    NotificationQueue[index] = React.cloneElement(NotificationQueue[index], { ...props, updatedAt: Date.now() });
+    renderNotifications(getNotificationContainer());
+    return true;
+}
+
+/**
+ * openNotification()
+ * Acts as if the notification was clicked.
+ */
+export function openNotification(key: string) {
+    const notification = NotificationQueue.find(n => n.key === key);
+    if (!notification || notification.props.exiting) return;
+
+    notification.props.onClick?.();
+    if (notification.props.dismissOnClick !== false)
+        notification.props.onClose();
+}
+
+/**
+ * renderNotifications()
+ * Renders the notification queue, newest notification first, each offset by the heights of the newer ones.
+ * @param {Root} root The root DOM container.
+ */
+function renderNotifications(root: Root) {
+    const offsets: number[] = [];
+    let offset = BASE_OFFSET;
+    for (let i = NotificationQueue.length - 1; i >= 0; i--) {
+        offsets[i] = offset;
+        offset += (NotificationHeights.get(NotificationQueue[i].key as string) ?? ESTIMATED_HEIGHT) + NOTIFICATION_GAP;
+    }
+
+    root.render(
+        <>
+            {NotificationQueue.map((notification, index) => {
+                const reversedIndex = (NotificationQueue.length - 1) - index;
+                return React.cloneElement(notification, { index: reversedIndex, offset: offsets[index] });
+            })}
+            {!!PendingQueue.length && (
+                <PendingIndicator
+                    key="pending"
+                    count={PendingQueue.length}
+                    offset={offset}
+                    onExpand={() => showPendingNotifications(true)}
+                    onClear={clearPendingNotifications}
+                />
+            )}
+        </>
+    );
+}
+
+// Stacked lines keep the rendered body, so mentions and spoilers stay formatted once a newer message replaces them.
+function renderStackedLine(notification: NotificationData): ReactNode {
+    return notification.richBody ?? <p className="toastnotifications-notification-p">{notification.body}</p>;
+}
+
+function isStackable(notification: NotificationData): boolean {
+    return !!notification.channelId && notification.category !== NotificationCategory.CALL && !notification.summary;
+}
+
+/**
+ * canStackNotification()
+ * @returns {boolean} Whether the notification would be merged into the visible toast of its channel.
+ */
+export function canStackNotification(notification: NotificationData): boolean {
+    const group = PluginSettings.store.groupByChannel && isStackable(notification) && NotificationGroups.get(notification.channelId!);
+    return !!group && NotificationQueue.some(n => n.key === group.key && !n.props.exiting);
+}
+
+/**
+ * stackNotification()
+ * Merges a notification into the visible toast of the same channel, if there is one.
+ * @returns {boolean} Whether the notification was merged.
+ */
+function stackNotification(notification: NotificationData, onStackClosed: () => void): boolean {
+    if (!PluginSettings.store.groupByChannel || !isStackable(notification)) return false;
+
+    const group = NotificationGroups.get(notification.channelId);
+    const index = group ? NotificationQueue.findIndex(n => n.key === group.key && !n.props.exiting) : -1;
+    if (!group || index === -1) return false;
+
+    group.lines = [...group.lines, group.body].slice(-MAX_STACKED_LINES);
+    group.body = renderStackedLine(notification);
+    group.count++;
+    group.callbacks.push(onStackClosed);
+
+    const { onClose, ...data } = notification;
+    NotificationQueue[index] = React.cloneElement(NotificationQueue[index], {
+        ...data,
+        richBody: data.richBody,
+        image: data.image,
+        media: data.media,
+        embeds: data.embeds,
+        reason: data.reason,
+        redacted: data.redacted,
+        stackedLines: group.lines,
+        stackedCount: group.count,
+        updatedAt: Date.now()
+    });
+
+    return true;
+}
+
+/**
+ * displayNotification()
+ * Merges the notification into the toast of its channel, or adds a new toast for it to the stack.
+ */
+function displayNotification(root: Root, notification: NotificationData, key: string, resolve: () => void) {
+    if (stackNotification(notification, () => {
+        notification.onClose?.();
+        resolve();
+    })) return;
+
+    // A notification raised again under the key of one still exiting replaces it right away, so keys stay unique.
+    ExitingNotifications.get(key)?.();
+
+    const ToastNotification = (
+        <NotificationComponent
+            key={key}
+            id={key}
+            index={NotificationQueue.length}
+            {...notification}
+            onHeightChange={height => {
+                if (NotificationHeights.get(key) === height || !NotificationQueue.some(n => n.key === key)) return;
+                NotificationHeights.set(key, height);
+                renderNotifications(root);
+            }}
+            onClose={() => {
+                const index = NotificationQueue.findIndex(n => n.key === key);
+                if (index === -1 || NotificationQueue[index].props.exiting) return;
+
+                // Play the exit animation before the notification leaves the queue.
+                NotificationQueue[index] = React.cloneElement(NotificationQueue[index], { exiting: true });
+                renderNotifications(root);
+
+                const remove = () => {
+                    clearTimeout(timeout);
+                    ExitingNotifications.delete(key);
+
                     // Remove this notification from the queue.
-                    NotificationQueue = NotificationQueue.filter(n => n.key !== thisNotificationID.toString());
+                    NotificationQueue = NotificationQueue.filter(n => n.key !== key);
+                    NotificationHeights.delete(key);
                     notification.onClose?.(); // Trigger the onClose callback if it exists.
-                    console.log(`[DEBUG] [ToastNotifications] Removed #${thisNotificationID} from queue.`);
-
-                    // Re-render remaining notifications with new reversed indices.
-                    root.render(
-                        <>
-                            {NotificationQueue.map((notification, index) => {
-                                const reversedIndex = (NotificationQueue.length - 1) - index;
-                                return React.cloneElement(notification, { index: reversedIndex });
-                            })}
-                        </>
-                    );
+                    console.log(`[DEBUG] [ToastNotifications] Removed #${key} from queue.`);
+
+                    // Close every notification that was stacked onto this one.
+                    const group = notification.channelId && NotificationGroups.get(notification.channelId);
+                    if (group && group.key === key) {
+                        NotificationGroups.delete(notification.channelId!);
+                        group.callbacks.forEach(callback => callback());
+                    }
+
+                    // Fill the freed spot and re-render the remaining notifications with new offsets, they transition into place.
+                    showPendingNotifications();
 
                     resolve();
-                }}
-            />
-        );
-
-        // Add this notification to the queue.
-        NotificationQueue.push(ToastNotification);
-        console.log(`[DEBUG] [ToastNotifications] Added #${thisNotificationID} to queue.`);
-
-        // Limit the number of notifications to the configured maximum.
-        if (NotificationQueue.length > PluginSettings.store.maxNotifications) NotificationQueue.shift();
-
-        // Render the notifications.
-        root.render(
-            <>
-                {NotificationQueue.map((notification, index) => {
-                    const reversedIndex = (NotificationQueue.length - 1) - index;
-                    return React.cloneElement(notification, { index: reversedIndex });
-                })}
-            </>
-        );
+                };
+
+                const reduceMotion = window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+                const timeout = setTimeout(remove, reduceMotion ? 0 : PluginSettings.store.exitDuration);
+                ExitingNotifications.set(key, remove);
+            }}
+        />
+    );
+
+    // Add this notification to the queue.
+    NotificationQueue.push(ToastNotification);
+    console.log(`[DEBUG] [ToastNotifications] Added #${key} to queue.`);
+
+    if (isStackable(notification)) {
+        NotificationGroups.set(notification.channelId!, {
+            key,
+            body: renderStackedLine(notification),
+            lines: [],
+            count: 0,
+            callbacks: []
+        });
+    }
+}
+
+/**
+ * showNotification()
+ * Shows a notification, resolving once it has been closed.
+ * When the stack is full, the notification is queued or dropped, or the oldest one makes room for it, as configured.
+ * @param {string} key Unique key of the notification, used to update or dismiss it later on.
+ */
+export function showNotification(notification: NotificationData, key = (notificationID++).toString()): Promise<void> {
+    const root = getNotificationContainer();
+
+    addToHistory(notification);
+    playNotificationSound(notification);
+
+    // Decided synchronously, so the toast is queued by the time this returns and can be updated or dismissed right away.
+    if (shouldUseNativeNotification()) return showNativeNotification(notification, key);
+
+    return new Promise<void>(resolve => {
+        if (!canStackNotification(notification) && getVisibleCount() >= PluginSettings.store.maxNotifications) {
+            switch (PluginSettings.store.overflowBehavior) {
+                case OverflowBehavior.DROP_NEWEST:
+                    notification.onClose?.();
+                    return resolve();
+                case OverflowBehavior.DROP_OLDEST:
+                    NotificationQueue.find(n => !n.props.exiting)?.props.onClose();
+                    break;
+                default:
+                    PendingQueue.push({ key, notification, resolve });
+                    return renderNotifications(root);
+            }
+        }
+
+        displayNotification(root, notification, key, resolve);
+        renderNotifications(root);
     });
 }
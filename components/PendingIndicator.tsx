@@ -0,0 +1,39 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classes } from "@utils/misc";
+import { React } from "@webpack/common";
+
+import { settings as PluginSettings } from "../index";
+import { getPositionStyle } from "./NotificationComponent";
+
+export default function PendingIndicator({ count, offset, onExpand, onClear }: {
+    count: number;
+    offset: number;
+    onExpand(): void;
+    onClear(): void;
+}) {
+    return (
+        <div
+            style={getPositionStyle(offset)}
+            className={classes(
+                "toastnotifications-pending-indicator",
+                `toastnotifications-position-${PluginSettings.store.position || "bottom-left"}`
+            )}
+        >
+            <button
+                className="toastnotifications-pending-expand"
+                onClick={onExpand}
+                aria-label={`Show ${count} pending notification${count > 1 ? "s" : ""}`}
+            >
+                +{count} pending
+            </button>
+            <button className="toastnotifications-pending-clear" onClick={onClear}>
+                Clear
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Button, Forms, React, UserStore, useState } from "@webpack/common";
+
+import { settings } from "../index";
+import { getAccountId, getPrivacyProfiles } from "../privacy";
+import { PrivacyContext, PrivacyProfile, PrivacyProfiles } from "../types";
+
+const ContextColumns = [
+    { label: "Normal", value: PrivacyContext.NORMAL },
+    { label: "Screen sharing", value: PrivacyContext.SCREEN_SHARING },
+    { label: "Streamer mode", value: PrivacyContext.STREAMER_MODE }
+];
+
+const OptionRows: { label: string; key: keyof PrivacyProfile; }[] = [
+    { label: "Don't show notifications", key: "suppress" },
+    { label: "Hide title", key: "hideTitle" },
+    { label: "Hide author", key: "hideAuthor" },
+    { label: "Hide channel and server names", key: "hideLocation" },
+    { label: "Hide avatar", key: "hideAvatar" },
+    { label: "Hide images", key: "hideImage" },
+    { label: "Hide message content", key: "hideBody" }
+];
+
+export default function PrivacyProfilesEditor() {
+    const accountId = getAccountId();
+    const [profiles, setProfiles] = useState<PrivacyProfiles>(() => getPrivacyProfiles(accountId));
+    const [isCustom, setIsCustom] = useState(() => accountId in settings.store.privacyProfiles);
+
+    function toggle(context: PrivacyContext, key: keyof PrivacyProfile) {
+        const newProfiles = { ...profiles, [context]: { ...profiles[context], [key]: !profiles[context][key] } };
+        setProfiles(newProfiles);
+        setIsCustom(true);
+        settings.store.privacyProfiles = { ...settings.store.privacyProfiles, [accountId]: newProfiles };
+    }
+
+    function reset() {
+        const { [accountId]: _, ...rest } = settings.store.privacyProfiles;
+        settings.store.privacyProfiles = rest;
+        setProfiles(getPrivacyProfiles(accountId));
+        setIsCustom(false);
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Privacy Profiles</Forms.FormTitle>
+            <Forms.FormText className="toastnotifications-privacy-description">
+                What to hide from notifications while using Discord normally, sharing your screen or in streamer mode.
+                These profiles only apply to {UserStore.getCurrentUser()?.username ?? "this account"}, other accounts use
+                their own or the defaults.
+            </Forms.FormText>
+            <table className="toastnotifications-privacy-table">
+                <thead>
+                    <tr>
+                        <th />
+                        {ContextColumns.map(column => <th key={column.value}>{column.label}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {OptionRows.map(row => (
+                        <tr key={row.key}>
+                            <td>{row.label}</td>
+                            {ContextColumns.map(column => (
+                                <td key={column.value}>
+                                    <input
+                                        type="checkbox"
+                                        aria-label={`${row.label} (${column.label})`}
+                                        checked={profiles[column.value][row.key]}
+                                        onChange={() => toggle(column.value, row.key)}
+                                    />
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} disabled={!isCustom} onClick={reset}>
+                Reset to Defaults
+            </Button>
+        </Forms.FormSection>
+    );
+}
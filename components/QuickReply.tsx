@@ -0,0 +1,94 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { React, useEffect, useRef, useState } from "@webpack/common";
+
+type ReplyState = "idle" | "sending" | "sent" | "failed";
+
+export default function QuickReply({ onReply, onActiveChange }: {
+    onReply(content: string): Promise<unknown>;
+    onActiveChange(active: boolean): void;
+}) {
+    const [open, setOpen] = useState(false);
+    const [content, setContent] = useState("");
+    const [state, setState] = useState<ReplyState>("idle");
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // Keep the toast open for as long as the reply field is expanded or a reply is in flight.
+    useEffect(() => onActiveChange(open || state === "sending"), [open, state]);
+
+    useEffect(() => {
+        if (open) inputRef.current?.focus();
+    }, [open]);
+
+    async function send() {
+        const trimmed = content.trim();
+        if (!trimmed || state === "sending") return;
+
+        setState("sending");
+        try {
+            await onReply(trimmed);
+            setContent("");
+            setOpen(false);
+            setState("sent");
+        } catch (e) {
+            console.error("[ToastNotifications] Failed to send quick reply.", e);
+            setState("failed");
+        }
+    }
+
+    if (!open) {
+        return (
+            <div className="toastnotifications-reply" onClick={e => e.stopPropagation()}>
+                <button
+                    className="toastnotifications-reply-toggle"
+                    onClick={() => {
+                        setState("idle");
+                        setOpen(true);
+                    }}
+                >
+                    Reply
+                </button>
+                {state === "sent" && <span className="toastnotifications-reply-status">Reply sent.</span>}
+            </div>
+        );
+    }
+
+    return (
+        <div
+            className="toastnotifications-reply"
+            onClick={e => e.stopPropagation()}
+            onContextMenu={e => e.stopPropagation()}
+        >
+            <input
+                ref={inputRef}
+                className="toastnotifications-reply-input"
+                placeholder="Reply..."
+                value={content}
+                disabled={state === "sending"}
+                onChange={e => setContent(e.currentTarget.value)}
+                onKeyDown={e => {
+                    e.stopPropagation();
+                    if (e.key === "Enter") {
+                        e.preventDefault();
+                        send();
+                    } else if (e.key === "Escape") {
+                        setOpen(false);
+                    }
+                }}
+                onKeyUp={e => e.preventDefault()}
+            />
+            <button
+                className="toastnotifications-reply-send"
+                disabled={state === "sending" || !content.trim()}
+                onClick={send}
+            >
+                {state === "sending" ? "Sending..." : "Send"}
+            </button>
+            {state === "failed" && <span className="toastnotifications-reply-status toastnotifications-reply-status-failed">Failed to send reply.</span>}
+        </div>
+    );
+}
@@ -0,0 +1,110 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classes } from "@utils/misc";
+import { Button, Forms, React, Select, TextInput, useState } from "@webpack/common";
+
+import { settings } from "../index";
+import { QuietSchedule, QuietTreatment } from "../types";
+
+const DayLabels = ["S", "M", "T", "W", "T", "F", "S"];
+
+export const QuietTreatmentOptions = [
+    { label: "Drop notifications", value: QuietTreatment.DROP },
+    { label: "Redact notifications", value: QuietTreatment.REDACT },
+    { label: "Hold and summarize afterwards", value: QuietTreatment.HOLD }
+];
+
+function ScheduleRow({ schedule, onChange, onRemove }: {
+    schedule: QuietSchedule;
+    onChange(schedule: QuietSchedule): void;
+    onRemove(): void;
+}) {
+    function toggleDay(day: number) {
+        const days = schedule.days.includes(day)
+            ? schedule.days.filter(d => d !== day)
+            : [...schedule.days, day].sort();
+        onChange({ ...schedule, days });
+    }
+
+    return (
+        <div className="toastnotifications-quiet-row">
+            <div className="toastnotifications-quiet-days">
+                {DayLabels.map((label, day) => (
+                    <button
+                        key={day}
+                        className={classes("toastnotifications-quiet-day", schedule.days.includes(day) && "toastnotifications-quiet-day-selected")}
+                        onClick={() => toggleDay(day)}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <TextInput
+                className="toastnotifications-quiet-time"
+                type="time"
+                value={schedule.start}
+                onChange={start => onChange({ ...schedule, start })}
+            />
+            <TextInput
+                className="toastnotifications-quiet-time"
+                type="time"
+                value={schedule.end}
+                onChange={end => onChange({ ...schedule, end })}
+            />
+            <div className="toastnotifications-quiet-select">
+                <Select
+                    options={QuietTreatmentOptions}
+                    isSelected={v => v === schedule.treatment}
+                    select={treatment => onChange({ ...schedule, treatment })}
+                    serialize={String}
+                />
+            </div>
+            <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} onClick={onRemove}>
+                Remove
+            </Button>
+        </div>
+    );
+}
+
+export default function QuietHoursEditor() {
+    const [schedules, setSchedules] = useState<QuietSchedule[]>(() => settings.store.quietSchedules);
+
+    function updateSchedules(newSchedules: QuietSchedule[]) {
+        setSchedules(newSchedules);
+        settings.store.quietSchedules = newSchedules;
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Quiet Hours</Forms.FormTitle>
+            <Forms.FormText className="toastnotifications-quiet-description">
+                Weekly periods during which notifications are dropped, redacted or held back. A period ending before it
+                starts continues into the next day.
+            </Forms.FormText>
+            {schedules.map(schedule => (
+                <ScheduleRow
+                    key={schedule.id}
+                    schedule={schedule}
+                    onChange={newSchedule => updateSchedules(schedules.map(s => s.id === schedule.id ? newSchedule : s))}
+                    onRemove={() => updateSchedules(schedules.filter(s => s.id !== schedule.id))}
+                />
+            ))}
+            <Button
+                size={Button.Sizes.SMALL}
+                onClick={() => updateSchedules([...schedules, {
+                    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+                    days: [1, 2, 3, 4, 5],
+                    start: "22:00",
+                    end: "08:00",
+                    treatment: QuietTreatment.HOLD
+                }])}
+            >
+                Add Schedule
+            </Button>
+        </Forms.FormSection>
+    );
+}
@@ -0,0 +1,127 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Button, Forms, React, Select, TextInput, useState } from "@webpack/common";
+
+import { settings } from "../index";
+import { isValidRuleRegex } from "../highlights";
+import { createRule } from "../rules";
+import { NotificationRule, RuleAction, RuleTarget } from "../types";
+
+const TargetOptions = [
+    { label: "User ID", value: RuleTarget.USER },
+    { label: "Channel ID", value: RuleTarget.CHANNEL },
+    { label: "Server ID", value: RuleTarget.GUILD },
+    { label: "Keyword", value: RuleTarget.KEYWORD },
+    { label: "Regular expression", value: RuleTarget.REGEX }
+];
+
+const ValuePlaceholders: Partial<Record<RuleTarget, string>> = {
+    [RuleTarget.KEYWORD]: "Keyword",
+    [RuleTarget.REGEX]: "Pattern"
+};
+
+const ActionOptions = [
+    { label: "Always notify", value: RuleAction.ALLOW },
+    { label: "Never notify", value: RuleAction.BLOCK },
+    { label: "Redact content", value: RuleAction.REDACT },
+    { label: "Make permanent", value: RuleAction.PERMANENT },
+    { label: "Custom timeout", value: RuleAction.TIMEOUT },
+    { label: "Custom sound", value: RuleAction.SOUND }
+];
+
+function getRegexError(pattern: string): string | undefined {
+    const valid = isValidRuleRegex(pattern);
+    return valid === true ? undefined : valid;
+}
+
+function RuleRow({ rule, onChange, onRemove }: {
+    rule: NotificationRule;
+    onChange(rule: NotificationRule): void;
+    onRemove(): void;
+}) {
+    return (
+        <div className="toastnotifications-rule-row">
+            <div className="toastnotifications-rule-select">
+                <Select
+                    options={TargetOptions}
+                    isSelected={v => v === rule.target}
+                    select={target => onChange({ ...rule, target })}
+                    serialize={String}
+                />
+            </div>
+            <TextInput
+                className="toastnotifications-rule-value"
+                placeholder={ValuePlaceholders[rule.target] ?? "ID"}
+                value={rule.value}
+                error={rule.target === RuleTarget.REGEX && rule.value ? getRegexError(rule.value) : undefined}
+                onChange={value => onChange({ ...rule, value })}
+            />
+            <div className="toastnotifications-rule-select">
+                <Select
+                    options={ActionOptions}
+                    isSelected={v => v === rule.action}
+                    select={action => onChange({ ...rule, action })}
+                    serialize={String}
+                />
+            </div>
+            {rule.action === RuleAction.TIMEOUT && (
+                <TextInput
+                    className="toastnotifications-rule-timeout"
+                    type="number"
+                    placeholder="Seconds"
+                    value={rule.timeout?.toString() ?? ""}
+                    onChange={value => onChange({ ...rule, timeout: Math.max(0, Number(value)) || undefined })}
+                />
+            )}
+            {rule.action === RuleAction.SOUND && (
+                <TextInput
+                    className="toastnotifications-rule-sound"
+                    placeholder="Sound name or URL"
+                    value={rule.sound ?? ""}
+                    onChange={sound => onChange({ ...rule, sound })}
+                />
+            )}
+            <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} onClick={onRemove}>
+                Remove
+            </Button>
+        </div>
+    );
+}
+
+export default function RulesEditor() {
+    const [rules, setRules] = useState<NotificationRule[]>(() => settings.store.rules);
+
+    function updateRules(newRules: NotificationRule[]) {
+        setRules(newRules);
+        settings.store.rules = newRules;
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Notification Rules</Forms.FormTitle>
+            <Forms.FormText className="toastnotifications-rule-description">
+                Rules are checked from top to bottom. The first matching "Always notify" or "Never notify" rule decides
+                whether a notification is shown, every other matching rule changes how it is shown. Text matched by an "Always
+                notify" keyword or regular expression rule is highlighted.
+            </Forms.FormText>
+            {rules.map(rule => (
+                <RuleRow
+                    key={rule.id}
+                    rule={rule}
+                    onChange={newRule => updateRules(rules.map(r => r.id === rule.id ? newRule : r))}
+                    onRemove={() => updateRules(rules.filter(r => r.id !== rule.id))}
+                />
+            ))}
+            <Button
+                size={Button.Sizes.SMALL}
+                onClick={() => updateRules([...rules, createRule(RuleTarget.USER, "", RuleAction.BLOCK)])}
+            >
+                Add Rule
+            </Button>
+        </Forms.FormSection>
+    );
+}
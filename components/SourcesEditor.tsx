@@ -0,0 +1,63 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Button, Forms, React, Switch, TextInput, useState } from "@webpack/common";
+
+import { settings } from "../index";
+import { SourceSettings } from "../types";
+
+export default function SourcesEditor() {
+    const [sources, setSources] = useState<Record<string, SourceSettings>>(() => settings.store.sources);
+    const names = Object.keys(sources);
+
+    function updateSources(newSources: Record<string, SourceSettings>) {
+        setSources(newSources);
+        settings.store.sources = newSources;
+    }
+
+    function updateSource(name: string, data: Partial<SourceSettings>) {
+        updateSources({ ...sources, [name]: { ...sources[name], ...data } });
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Other Plugins</Forms.FormTitle>
+            <Forms.FormText className="toastnotifications-source-description">
+                Plugins that have shown notifications through this plugin. The rate limit is the maximum number of
+                notifications per minute, 0 for no limit.
+            </Forms.FormText>
+            {!names.length && <Forms.FormText>No other plugin has shown a notification yet.</Forms.FormText>}
+            {names.map(name => (
+                <div key={name} className="toastnotifications-source-row">
+                    <Switch
+                        className="toastnotifications-source-switch"
+                        value={sources[name].enabled}
+                        onChange={enabled => updateSource(name, { enabled })}
+                        hideBorder
+                    >
+                        {name}
+                    </Switch>
+                    <TextInput
+                        className="toastnotifications-source-rate"
+                        type="number"
+                        value={sources[name].rateLimit.toString()}
+                        onChange={value => updateSource(name, { rateLimit: Math.max(0, Math.floor(Number(value))) || 0 })}
+                    />
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        color={Button.Colors.RED}
+                        onClick={() => {
+                            const { [name]: _, ...rest } = sources;
+                            updateSources(rest);
+                        }}
+                    >
+                        Forget
+                    </Button>
+                </div>
+            ))}
+        </Forms.FormSection>
+    );
+}
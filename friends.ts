@@ -0,0 +1,152 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { PresenceStore, RelationshipStore, UserStore } from "@webpack/common";
+import { RelationshipType } from "plugins/relationshipNotifier/types";
+
+import { NotificationData } from "./components/Notifications";
+import { deliverNotification, getAvatarURL, openDirectMessage, settings } from "./index";
+import { applyRuleResult, evaluateRules } from "./rules";
+import { NotificationCategory, RuleAction } from "./types";
+
+const enum ActivityType {
+    PLAYING = 0,
+    STREAMING = 1
+}
+
+interface Activity {
+    type: ActivityType;
+    name: string;
+}
+
+interface PresenceState {
+    status: string;
+    streaming: boolean;
+    games: string[];
+}
+
+export interface PresenceUpdate {
+    user: { id: string; };
+    status: string;
+    activities?: Activity[];
+}
+
+const presences = new Map<string, PresenceState>();
+const relationships = new Map<string, RelationshipType>();
+const lastNotified = new Map<string, number>();
+const removedByMe = new Map<string, number>(); // Users the current user started removing, with when they did.
+
+const REMOVAL_TIMEOUT = 30_000; // Time to wait for the removal to come back from the gateway.
+
+function toList(str: string): string[] {
+    return str.split(",").map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
+function toPresenceState(status: string, activities: Activity[] = []): PresenceState {
+    return {
+        status,
+        streaming: activities.some(a => a.type === ActivityType.STREAMING),
+        games: activities.filter(a => a.type === ActivityType.PLAYING).map(a => a.name)
+    };
+}
+
+/**
+ * Records the current relationships and friend presences, so later events can be compared against them.
+ */
+export function snapshotFriends() {
+    relationships.clear();
+    presences.clear();
+    lastNotified.clear();
+
+    for (const [id, type] of Object.entries(RelationshipStore.getRelationships() as Record<string, RelationshipType>))
+        relationships.set(id, type);
+
+    for (const id of RelationshipStore.getFriendIDs())
+        presences.set(id, toPresenceState(PresenceStore.getStatus(id), PresenceStore.getActivities(id)));
+}
+
+export function getPreviousRelationshipType(userId: string): RelationshipType | undefined {
+    return relationships.get(userId);
+}
+
+export function trackRelationship(userId: string, type: RelationshipType | null) {
+    if (type === null) relationships.delete(userId);
+    else relationships.set(userId, type);
+}
+
+/**
+ * Remembers that the current user removed someone, so the resulting relationship removal doesn't notify them about it.
+ */
+export function trackOwnRemoval(userId: string) {
+    removedByMe.set(userId, Date.now());
+}
+
+export function wasRemovedByMe(userId: string): boolean {
+    const removedAt = removedByMe.get(userId);
+    removedByMe.delete(userId);
+    return removedAt !== undefined && Date.now() - removedAt < REMOVAL_TIMEOUT;
+}
+
+function isDebounced(userId: string, event: string): boolean {
+    const key = `${userId}:${event}`;
+    const now = Date.now();
+    const last = lastNotified.get(key);
+    if (last && now - last < settings.store.presenceDebounce * 1000) return true;
+
+    lastNotified.set(key, now);
+    return false;
+}
+
+function notifyPresence(userId: string, event: string, title: string, body: string) {
+    if (isDebounced(userId, event)) return;
+
+    const rules = evaluateRules({ userId });
+    if (rules.verdict === RuleAction.BLOCK) return;
+
+    const user = UserStore.getUser(userId);
+    if (!user) return;
+
+    const notification: NotificationData = {
+        title: `${user.username} ${title}`,
+        author: user.username,
+        formatTitle: author => `${author} ${title}`,
+        icon: getAvatarURL(user),
+        body,
+        attachments: 0,
+        category: NotificationCategory.FRIEND,
+        userId,
+        onClick: () => openDirectMessage(userId)
+    };
+
+    applyRuleResult(notification, rules);
+    deliverNotification(notification);
+}
+
+export function handlePresenceUpdate({ user, status, activities }: PresenceUpdate) {
+    if (!RelationshipStore.isFriend(user.id)) return;
+
+    const previous = presences.get(user.id);
+    const current = toPresenceState(status, activities);
+    presences.set(user.id, current);
+
+    // The first update for a friend only seeds their state, as there is nothing to compare it against.
+    if (!previous || !settings.store.friendActivity) return;
+
+    const allowlist = toList(settings.store.friendAllowlist);
+    if (allowlist.length && !allowlist.includes(user.id)) return;
+
+    if (settings.store.friendOnline && previous.status === "offline" && current.status !== "offline")
+        notifyPresence(user.id, "online", "is now online", "Say hello!");
+
+    if (settings.store.friendStreaming && !previous.streaming && current.streaming)
+        notifyPresence(user.id, "streaming", "started streaming", "Click to message them.");
+
+    const games = toList(settings.store.friendGames);
+    for (const game of current.games) {
+        if (previous.games.includes(game) || !games.includes(game.toLowerCase())) continue;
+        notifyPresence(user.id, `game:${game.toLowerCase()}`, `started playing ${game}`, "Click to message them.");
+    }
+}
@@ -0,0 +1,91 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { React } from "@webpack/common";
+import { ReactNode } from "react";
+
+import { settings } from "./index";
+import { NotificationRule, RuleAction, RuleTarget } from "./types";
+
+type Range = [start: number, end: number];
+
+function escapeRegex(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function isValidRuleRegex(pattern: string): true | string {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch (e) {
+        return `Invalid regular expression: ${(e as Error).message}`;
+    }
+}
+
+/**
+ * Builds the case-insensitive pattern of a keyword or regex rule, used both to match and to highlight messages.
+ */
+export function getRuleRegex(rule: NotificationRule, flags = "i"): RegExp | undefined {
+    const value = rule.value.trim();
+    if (!value) return;
+
+    switch (rule.target) {
+        case RuleTarget.KEYWORD:
+            return new RegExp(escapeRegex(value), flags);
+        case RuleTarget.REGEX:
+            return isValidRuleRegex(value) === true ? new RegExp(value, flags) : undefined;
+    }
+}
+
+// Keyword and regex rules that always notify also highlight what they matched.
+function getHighlightRegexes(): RegExp[] {
+    return settings.store.rules
+        .filter(rule => rule.action === RuleAction.ALLOW)
+        .map(rule => getRuleRegex(rule, "gi"))
+        .filter((regex): regex is RegExp => !!regex);
+}
+
+function findHighlightRanges(text: string): Range[] {
+    const ranges: Range[] = [];
+    for (const regex of getHighlightRegexes()) {
+        for (const match of text.matchAll(regex)) {
+            if (!match[0]) continue;
+            ranges.push([match.index!, match.index! + match[0].length]);
+        }
+    }
+
+    // Merge overlapping matches so every character is highlighted at most once.
+    ranges.sort((a, b) => a[0] - b[0]);
+    return ranges.reduce<Range[]>((merged, range) => {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+        else merged.push([...range]);
+        return merged;
+    }, []);
+}
+
+/**
+ * Wraps every highlighted range within the string elements in a highlight span, leaving other elements untouched.
+ */
+export function parseHighlights(elements: ReactNode[]): ReactNode[] {
+    return elements.flatMap((element, elementIndex) => {
+        if (typeof element !== "string") return [element];
+
+        const parts: ReactNode[] = [];
+        let lastIndex = 0;
+        for (const [start, end] of findHighlightRanges(element)) {
+            parts.push(element.slice(lastIndex, start));
+            parts.push(
+                <span key={`highlight-${elementIndex}-${start}`} className="toastnotifications-highlight-class">
+                    {element.slice(start, end)}
+                </span>
+            );
+            lastIndex = end;
+        }
+        if (lastIndex < element.length) parts.push(element.slice(lastIndex));
+        return parts;
+    });
+}
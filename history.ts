@@ -0,0 +1,71 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+
+import { NotificationData } from "./components/Notifications";
+import { settings } from "./index";
+
+const HISTORY_KEY = "ToastNotifications_history";
+
+export interface HistoryEntry {
+    id: string;
+    timestamp: number;
+    title: string;
+    body: string;
+    icon?: string;
+    image?: string;
+    channelId?: string;
+    guildId?: string;
+    userId?: string;
+    source?: string;
+}
+
+let history: HistoryEntry[] = [];
+let loaded = false; // Entries recorded before the stored history has loaded are kept in memory and merged in afterwards.
+
+export async function loadHistory() {
+    const stored = await DataStore.get<HistoryEntry[]>(HISTORY_KEY) ?? [];
+    if (loaded) return; // Already loaded, or cleared while loading.
+
+    const recorded = history;
+
+    history = [...recorded, ...stored].slice(0, settings.store.historySize);
+    loaded = true;
+
+    if (recorded.length) DataStore.set(HISTORY_KEY, history);
+}
+
+export function getHistory(): HistoryEntry[] {
+    return history;
+}
+
+export function addToHistory(notification: NotificationData) {
+    const cap = settings.store.historySize;
+    if (!cap) return;
+
+    const timestamp = Date.now();
+    history = [{
+        id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp,
+        title: notification.title,
+        body: notification.body,
+        icon: notification.icon,
+        image: notification.image,
+        channelId: notification.channelId,
+        guildId: notification.guildId,
+        userId: notification.userId,
+        source: notification.source
+    }, ...history].slice(0, cap);
+
+    if (loaded) DataStore.set(HISTORY_KEY, history);
+}
+
+export function clearHistory() {
+    history = [];
+    loaded = true;
+    return DataStore.set(HISTORY_KEY, history);
+}
@@ -4,14 +4,18 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { ApplicationCommandInputType } from "@api/Commands";
 import { definePluginSettings } from "@api/Settings";
+import ErrorBoundary from "@components/ErrorBoundary";
 import { makeRange } from "@components/PluginSettings/components";
+import { sendMessage } from "@utils/discord";
 import definePlugin, { OptionType } from "@utils/types";
-import { findByPropsLazy } from "@webpack";
+import { findByPropsLazy, findStoreLazy } from "@webpack";
 import {
     Button,
+    ChannelRouter,
     ChannelStore,
-    GuildStore,
+    FluxDispatcher,
     NavigationRouter,
     RelationshipStore,
     SelectedChannelStore,
@@ -20,24 +24,44 @@ import {
 import { Channel, Message, User } from "discord-types/general";
 import { RelationshipType } from "plugins/relationshipNotifier/types";
 import { ReactNode } from "react";
-import { Webpack } from "Vencord";
 
+import { handleCallEnded, handleCallRinging, recordCaller } from "./calls";
+import { HistoryButton, openHistoryModal } from "./components/HistoryModal";
 import { NotificationData, showNotification } from "./components/Notifications";
-import { MessageTypes } from "./types";
+import PrivacyProfilesEditor from "./components/PrivacyProfilesEditor";
+import QuietHoursEditor from "./components/QuietHoursEditor";
+import RulesEditor from "./components/RulesEditor";
+import SourcesEditor from "./components/SourcesEditor";
+import { getPreviousRelationshipType, handlePresenceUpdate, PresenceUpdate, snapshotFriends, trackOwnRemoval, trackRelationship, wasRemovedByMe } from "./friends";
+import { HistoryEntry, loadHistory } from "./history";
+import { addKeybindListener, isValidKeybind, removeKeybindListener } from "./keybinds";
+import { getMention, MuteStore } from "./mentions";
+import { getMessageBody, getName, getParentChannel, isForumPost, redactNotification } from "./messageBody";
+import { requestNativePermission } from "./native";
+import { getEmbedPreviews, getMediaPreviews } from "./previews";
+import { applyPrivacyProfile, migrateLegacyPrivacySettings } from "./privacy";
+import { clearHeldNotifications, flushHeldNotifications, getQuietTreatment, holdNotification } from "./quietHours";
+import { summarizeBurst } from "./rateLimit";
+import { handleChannelSelect, handleMessageAck, handleMessageDelete, handleMessageUpdate } from "./readState";
+import { applyRuleResult, evaluateRules, migrateLegacyLists, RuleResult } from "./rules";
+import { playNotificationSound, willDiscordPlaySound } from "./sounds";
+import { AnimationStyle, DeliveryMode, EmojiRendering, LayoutPreset, MessageTypes, NotificationCategory, NotificationRule, OverflowBehavior, PrivacyProfiles, QuietSchedule, QuietTreatment, RuleAction, SourceSettings, ThreadMemberFlags } from "./types";
 
-let ignoredUsers: string[] = [];
-let notifyFor: string[] = [];
-
-const MuteStore = Webpack.findByPropsLazy("isSuppressEveryoneEnabled");
 const SelectedChannelActionCreators = findByPropsLazy("selectPrivateChannel");
-const UserUtils = findByPropsLazy("getGlobalName");
+const PrivateChannelActionCreators = findByPropsLazy("openPrivateChannel");
+const UserGuildSettingsActionCreators = findByPropsLazy("updateChannelOverrideSettings");
+const RelationshipActionCreators = findByPropsLazy("addRelationship", "removeRelationship");
+const JoinedThreadsStore = findStoreLazy("JoinedThreadsStore");
+
+let quietHoursInterval: ReturnType<typeof setInterval> | undefined;
 
-const USER_MENTION_REGEX = /<@!?(\d{17,20})>|<#(\d{17,20})>|<@&(\d{17,20})>/g;
+export function isStreaming(): boolean {
+    return Vencord.Webpack.findStore("ApplicationStreamingStore")
+        .getState().activeStreams?.length >= 1;
+}
 
-enum StreamingTreatment {
-    NORMAL = 0,
-    NO_CONTENT = 1,
-    IGNORE = 2
+export function isStreamerMode(): boolean {
+    return Vencord.Webpack.findStore("StreamerModeStore").enabled;
 }
 
 function setFadeInDurationCSS(duration: number) {
@@ -47,6 +71,43 @@ function setFadeInDurationCSS(duration: number) {
     );
 }
 
+function setExitDurationCSS(duration: number) {
+    document.documentElement.style.setProperty(
+        "--toastnotifications-exit-duration",
+        `${duration}ms`
+    );
+}
+
+function setWidthCSS(width: number) {
+    document.documentElement.style.setProperty(
+        "--toastnotifications-width",
+        width ? `${width}px` : "auto"
+    );
+}
+
+function setBorderRadiusCSS(radius: number) {
+    document.documentElement.style.setProperty(
+        "--toastnotifications-border-radius",
+        `${radius}px`
+    );
+}
+
+function isValidColor(value: string): true | string {
+    return !value || /^#([\da-f]{3}|[\da-f]{6})$/i.test(value) || "Colors must be hex codes, such as #5865f2.";
+}
+
+export function getAccentColor(category?: NotificationCategory): string {
+    const colors: Partial<Record<NotificationCategory, string>> = {
+        [NotificationCategory.DIRECT_MESSAGE]: settings.store.accentDirectMessages,
+        [NotificationCategory.GROUP_MESSAGE]: settings.store.accentGroupMessages,
+        [NotificationCategory.GUILD_MESSAGE]: settings.store.accentGuildMessages,
+        [NotificationCategory.MENTION]: settings.store.accentMentions,
+        [NotificationCategory.FRIEND]: settings.store.accentFriendActivity
+    };
+
+    return (category && colors[category]) || "var(--brand-experiment)";
+}
+
 function setFinalOpacityCSS(opacity: number) {
     document.documentElement.style.setProperty(
         "--toastnotifications-final-opacity",
@@ -55,6 +116,15 @@ function setFinalOpacityCSS(opacity: number) {
 }
 
 export const settings = definePluginSettings({
+    deliveryMode: {
+        type: OptionType.SELECT,
+        description: "Where to show notifications",
+        options: [
+            { label: "In Discord - Always show notifications inside Discord", value: DeliveryMode.IN_APP, default: true },
+            { label: "Desktop - Use desktop notifications while Discord is not focused", value: DeliveryMode.NATIVE_WHEN_UNFOCUSED }
+        ],
+        onChange: () => requestNativePermission()
+    },
     position: {
         type: OptionType.SELECT,
         description: "The position of the toast notification",
@@ -62,7 +132,10 @@ export const settings = definePluginSettings({
             { label: "Bottom Left", value: "bottom-left", default: true },
             { label: "Top Left", value: "top-left" },
             { label: "Top Right", value: "top-right" },
-            { label: "Bottom Right", value: "bottom-right" }
+            { label: "Bottom Right", value: "bottom-right" },
+            { label: "Top Center", value: "top-center" },
+            { label: "Bottom Center", value: "bottom-center" },
+            { label: "Follow Chat Area", value: "chat-area" }
         ]
     },
     timeout: {
@@ -78,29 +151,130 @@ export const settings = definePluginSettings({
         markers: makeRange(10, 100, 10),
         onChange: (value: number) => setFinalOpacityCSS(value)
     },
+    layoutPreset: {
+        type: OptionType.SELECT,
+        description: "Size and spacing of notifications",
+        options: [
+            { label: "Compact", value: LayoutPreset.COMPACT },
+            { label: "Comfortable", value: LayoutPreset.COMFORTABLE, default: true },
+            { label: "Large", value: LayoutPreset.LARGE }
+        ]
+    },
+    width: {
+        type: OptionType.SLIDER,
+        description: "Width of notifications in pixels (0 to fit the content)",
+        default: 0,
+        markers: [0, 240, 320, 400, 480, 560, 640],
+        stickToMarkers: true,
+        onChange: (value: number) => setWidthCSS(value)
+    },
+    borderRadius: {
+        type: OptionType.SLIDER,
+        description: "Corner radius of notifications in pixels",
+        default: 6,
+        markers: makeRange(0, 20, 2),
+        stickToMarkers: true,
+        onChange: (value: number) => setBorderRadiusCSS(value)
+    },
+    accentDirectMessages: {
+        type: OptionType.STRING,
+        description: "Accent color of direct message notifications, as a hex code (leave empty for the default)",
+        default: "",
+        isValid: isValidColor
+    },
+    accentGroupMessages: {
+        type: OptionType.STRING,
+        description: "Accent color of group message notifications",
+        default: "",
+        isValid: isValidColor
+    },
+    accentGuildMessages: {
+        type: OptionType.STRING,
+        description: "Accent color of server message notifications",
+        default: "",
+        isValid: isValidColor
+    },
+    accentMentions: {
+        type: OptionType.STRING,
+        description: "Accent color of mention notifications",
+        default: "",
+        isValid: isValidColor
+    },
+    accentFriendActivity: {
+        type: OptionType.STRING,
+        description: "Accent color of friend activity notifications",
+        default: "",
+        isValid: isValidColor
+    },
     maxNotifications: {
         type: OptionType.SLIDER,
         description: "Maximum number of notifications displayed at once",
         default: 3,
         markers: makeRange(1, 5, 1)
     },
+    overflowBehavior: {
+        type: OptionType.SELECT,
+        description: "What happens to new notifications while the maximum number is displayed",
+        options: [
+            { label: "Queue them until a notification closes", value: OverflowBehavior.QUEUE, default: true },
+            { label: "Close the oldest notification", value: OverflowBehavior.DROP_OLDEST },
+            { label: "Drop the new notification", value: OverflowBehavior.DROP_NEWEST }
+        ]
+    },
+    groupByChannel: {
+        type: OptionType.BOOLEAN,
+        description: "Stack consecutive messages from the same channel into a single notification",
+        default: true
+    },
+    channelRateLimit: {
+        type: OptionType.SLIDER,
+        description: "Maximum message notifications per channel within the rate limit window, the rest are summarized (0 for no limit)",
+        default: 3,
+        markers: makeRange(0, 10, 1),
+        stickToMarkers: true
+    },
+    globalRateLimit: {
+        type: OptionType.SLIDER,
+        description: "Maximum message notifications across all channels within the rate limit window (0 for no limit)",
+        default: 10,
+        markers: makeRange(0, 30, 5),
+        stickToMarkers: true
+    },
+    rateLimitWindow: {
+        type: OptionType.SLIDER,
+        description: "Rate limit window in seconds",
+        default: 30,
+        markers: makeRange(10, 120, 10),
+        stickToMarkers: true
+    },
+    animationStyle: {
+        type: OptionType.SELECT,
+        description: "How notifications animate in and out",
+        options: [
+            { label: "Fade", value: AnimationStyle.FADE, default: true },
+            { label: "Slide", value: AnimationStyle.SLIDE },
+            { label: "Scale", value: AnimationStyle.SCALE }
+        ]
+    },
     fadeInDuration: {
         type: OptionType.SLIDER,
-        description: "Fade-in duration for notifications (ms)",
+        description: "Enter animation duration for notifications (ms)",
         default: 0,
         markers: makeRange(0, 2000, 100),
         onChange: (value: number) => setFadeInDurationCSS(value)
     },
+    exitDuration: {
+        type: OptionType.SLIDER,
+        description: "Exit animation duration for notifications (ms)",
+        default: 200,
+        markers: makeRange(0, 2000, 100),
+        onChange: (value: number) => setExitDurationCSS(value)
+    },
     determineServerNotifications: {
         type: OptionType.BOOLEAN,
         description: "Automatically determine what server notifications to show based on your channel/guild settings",
         default: true
     },
-    disableInStreamerMode: {
-        type: OptionType.BOOLEAN,
-        description: "Disable notifications while in streamer mode",
-        default: true
-    },
     renderImages: {
         type: OptionType.BOOLEAN,
         description: "Render images in notifications",
@@ -116,6 +290,35 @@ export const settings = definePluginSettings({
         description: "Show notifications for group messages",
         default: true
     },
+    actionButtons: {
+        type: OptionType.BOOLEAN,
+        description: "Show quick action buttons, such as mark as read or accept friend request, on notifications",
+        default: true
+    },
+    renderMarkdown: {
+        type: OptionType.BOOLEAN,
+        description: "Render markdown formatting, such as bold text, spoilers and code, in notifications",
+        default: true
+    },
+    emojiRendering: {
+        type: OptionType.SELECT,
+        description: "How to render emoji in notifications",
+        options: [
+            { label: "Images - Show emoji as images", value: EmojiRendering.IMAGES, default: true },
+            { label: "Text While Streaming - Show emoji as :name: while sharing your screen", value: EmojiRendering.TEXT_WHILE_STREAMING },
+            { label: "Text - Always show emoji as :name:", value: EmojiRendering.TEXT }
+        ]
+    },
+    callToasts: {
+        type: OptionType.BOOLEAN,
+        description: "Show a notification with join and decline buttons while a call is ringing",
+        default: true
+    },
+    quickReply: {
+        type: OptionType.BOOLEAN,
+        description: "Show a reply field in direct and group message notifications",
+        default: true
+    },
     friendServerNotifications: {
         type: OptionType.BOOLEAN,
         description: "Show notifications when friends send messages in servers they share with you",
@@ -126,32 +329,174 @@ export const settings = definePluginSettings({
         description: "Show notifications for friend activity",
         default: true
     },
-    disableMessageBody: {
+    friendRequestAccepted: {
+        type: OptionType.BOOLEAN,
+        description: "Show notifications when someone accepts your friend request",
+        default: true
+    },
+    friendRemoved: {
+        type: OptionType.BOOLEAN,
+        description: "Show notifications when someone is no longer your friend",
+        default: true
+    },
+    friendOnline: {
+        type: OptionType.BOOLEAN,
+        description: "Show notifications when friends come online",
+        default: false
+    },
+    friendStreaming: {
+        type: OptionType.BOOLEAN,
+        description: "Show notifications when friends start streaming",
+        default: false
+    },
+    friendGames: {
+        type: OptionType.STRING,
+        description: "Show notifications when friends start playing one of these games (separate with commas)",
+        default: ""
+    },
+    friendAllowlist: {
+        type: OptionType.STRING,
+        description: "Only show online, streaming and game notifications for these user ids, leave empty for all friends (separate with commas)",
+        default: ""
+    },
+    presenceDebounce: {
+        type: OptionType.SLIDER,
+        description: "Time in seconds before the same friend activity can notify again",
+        default: 60,
+        markers: makeRange(0, 300, 30),
+        stickToMarkers: true
+    },
+    privacyProfiles: {
+        type: OptionType.CUSTOM,
+        default: {} as Record<string, PrivacyProfiles>
+    },
+    privacyProfilesEditor: {
+        type: OptionType.COMPONENT,
+        description: "What to hide from notifications while using Discord normally, sharing your screen or in streamer mode.",
+        component: () => <PrivacyProfilesEditor />
+    },
+    quietSchedules: {
+        type: OptionType.CUSTOM,
+        default: [] as QuietSchedule[]
+    },
+    quietSchedulesEditor: {
+        type: OptionType.COMPONENT,
+        description: "Weekly quiet hours during which notifications are dropped, redacted or held back.",
+        component: () => <QuietHoursEditor />
+    },
+    quietFollowDnd: {
         type: OptionType.BOOLEAN,
-        description: "Redact message body in all notifications",
+        description: "Treat your Do Not Disturb status as quiet hours",
         default: false
     },
-    streamingTreatment: {
+    quietDndTreatment: {
         type: OptionType.SELECT,
-        description: "How to treat notifications while sharing your screen",
+        description: "How to treat notifications while your status is Do Not Disturb",
         options: [
-            { label: "Normal - Show the notification as normal", value: StreamingTreatment.NORMAL, default: true },
-            { label: "No Content - Hide the notification body", value: StreamingTreatment.NO_CONTENT },
-            { label: "Ignore - Don't show the notification at all", value: StreamingTreatment.IGNORE }
+            { label: "Drop - Don't show the notification at all", value: QuietTreatment.DROP, default: true },
+            { label: "Redact - Hide the notification body", value: QuietTreatment.REDACT },
+            { label: "Hold - Summarize the notifications once Do Not Disturb ends", value: QuietTreatment.HOLD }
         ]
     },
-    notifyFor: {
+    rules: {
+        type: OptionType.CUSTOM,
+        default: [] as NotificationRule[]
+    },
+    rulesEditor: {
+        type: OptionType.COMPONENT,
+        description: "Rules to always or never notify for, redact or change the timeout of specific users, channels, servers or keywords.",
+        component: () => <RulesEditor />
+    },
+    keybindFocus: {
+        type: OptionType.STRING,
+        description: "Keybind to focus the newest notification",
+        default: "ctrl+alt+n",
+        isValid: isValidKeybind
+    },
+    keybindCycle: {
+        type: OptionType.STRING,
+        description: "Keybind to move focus to the next notification",
+        default: "ctrl+alt+arrowdown",
+        isValid: isValidKeybind
+    },
+    keybindOpen: {
+        type: OptionType.STRING,
+        description: "Keybind to open the focused notification",
+        default: "ctrl+alt+enter",
+        isValid: isValidKeybind
+    },
+    keybindDismiss: {
+        type: OptionType.STRING,
+        description: "Keybind to dismiss the focused notification",
+        default: "ctrl+alt+d",
+        isValid: isValidKeybind
+    },
+    keybindDismissAll: {
+        type: OptionType.STRING,
+        description: "Keybind to dismiss all notifications",
+        default: "ctrl+alt+shift+d",
+        isValid: isValidKeybind
+    },
+    historySize: {
+        type: OptionType.SLIDER,
+        description: "Number of notifications to keep in the notification history (0 to disable)",
+        default: 100,
+        markers: makeRange(0, 500, 50),
+        stickToMarkers: true
+    },
+    historyButton: {
+        type: OptionType.BOOLEAN,
+        description: "Show a button in the channel header to open the notification history",
+        default: true
+    },
+    soundVolume: {
+        type: OptionType.SLIDER,
+        description: "Volume of notification sounds",
+        default: 50,
+        markers: makeRange(0, 100, 10)
+    },
+    soundDirectMessages: {
+        type: OptionType.STRING,
+        description: "Sound for direct messages, a Discord sound name (such as message1) or an audio URL or data URI. Leave empty for no sound",
+        default: ""
+    },
+    soundGroupMessages: {
         type: OptionType.STRING,
-        description: "Create a list of channel ids to receive notifications from (separate with commas)",
-        onChange: () => { notifyFor = stringToList(settings.store.notifyFor); },
+        description: "Sound for group messages, a Discord sound name or an audio URL or data URI",
         default: ""
     },
-    ignoreUsers: {
+    soundMentions: {
         type: OptionType.STRING,
-        description: "Create a list of user ids to ignore all their notifications from (separate with commas)",
-        onChange: () => { ignoredUsers = stringToList(settings.store.ignoreUsers); },
+        description: "Sound for server mentions, a Discord sound name or an audio URL or data URI",
         default: ""
     },
+    soundFriendActivity: {
+        type: OptionType.STRING,
+        description: "Sound for friend activity, a Discord sound name or an audio URL or data URI",
+        default: ""
+    },
+    soundCalls: {
+        type: OptionType.STRING,
+        description: "Sound for incoming calls, a Discord sound name (such as call_ringing) or an audio URL or data URI",
+        default: ""
+    },
+    soundTestButton: {
+        type: OptionType.COMPONENT,
+        description: "Play the direct message sound.",
+        component: () =>
+            <Button onClick={() => playNotificationSound({ title: "", body: "", attachments: 0, category: NotificationCategory.DIRECT_MESSAGE })}>
+                Test Sound
+            </Button>
+    },
+    sources: {
+        type: OptionType.CUSTOM,
+        default: {} as Record<string, SourceSettings>
+    },
+    sourcesEditor: {
+        type: OptionType.COMPONENT,
+        description: "Enable, disable or rate limit notifications shown by other plugins.",
+        component: () => <SourcesEditor />
+    },
     exampleButton: {
         type: OptionType.COMPONENT,
         description: "Show an example toast notification.",
@@ -162,102 +507,28 @@ export const settings = definePluginSettings({
     }
 });
 
-function stringToList(str: string): string[] {
-    return str ? str.replace(/\s/g, "").split(",") : [];
-}
-
-function limitMessageLength(body: string, hasAttachments: boolean): string {
-    if (hasAttachments && body?.length > 30) return body.substring(0, 27) + "...";
-    if (body?.length > 165) return body.substring(0, 162) + "...";
-    return body;
-}
-
-function getName(user: User): string {
-    return RelationshipStore.getNickname(user.id) ?? UserUtils.getName(user);
-}
-
-function getAvatarURL(user: User): string {
+export function getAvatarURL(user: User): string {
     return `https://cdn.discordapp.com/avatars/${user.id}/${user.avatar}.png?size=128`;
 }
 
-function addMention(id: string, type: string, guildId?: string): ReactNode {
-    let name;
-    if (type === "user")
-        name = `@${UserStore.getUser(id)?.username || "unknown-user"}`;
-    else if (type === "channel")
-        name = `#${ChannelStore.getChannel(id)?.name || "unknown-channel"}`;
-    else if (type === "role" && guildId)
-        name = `@${GuildStore.getGuild(guildId).getRole(id)?.name || "unknown-role"}`;
-    return (
-        <span key={`${type}-${id}`} className="toastnotifications-mention-class">
-            {name}
-        </span>
-    );
-}
-
-function parseMentions(body: string, channel: Channel): ReactNode[] {
-    const elements: ReactNode[] = [];
-    let lastIndex = 0;
-    body.replace(USER_MENTION_REGEX, (match, userId, channelId, roleId, offset) => {
-        elements.push(body.slice(lastIndex, offset));
-        if (userId) elements.push(addMention(userId, "user"));
-        else if (channelId) elements.push(addMention(channelId, "channel"));
-        else if (roleId) elements.push(addMention(roleId, "role", channel.guild_id));
-        lastIndex = offset + match.length;
-        return match;
-    });
-    if (lastIndex < body.length) elements.push(body.slice(lastIndex));
-    return elements;
-}
-
-function formatEmotes(body: string): string {
-    return body.replace(/(<a?:\w+:\d+>)/g, match => `:${match.split(":")[1]}:`);
+function getNotificationAuthor(message: Message, channel: Channel): string {
+    return channel.isGroupDM() ? message.author.username : getName(message.author);
 }
 
-function getNotificationTitle(message: Message, channel: Channel): string {
+/**
+ * Names the channel, thread or group shown in the title next to the author, direct messages have none.
+ */
+function getNotificationLocation(channel: Channel): string | undefined {
+    if (channel.isThread()) {
+        const parent = getParentChannel(channel);
+        return `${channel.name}${parent ? ` in #${parent.name}` : ""}`;
+    }
     if (channel.isGroupDM()) {
         let channelName = channel.name?.trim() || channel.rawRecipients?.slice(0, 3).map(e => e.username).join(", ");
         if (channelName?.length > 20) channelName = channelName.substring(0, 20) + "...";
-        return `${message.author.username} (${channelName})`;
-    }
-    if (channel.guild_id) return `${getName(message.author)} (#${channel.name})`;
-    return getName(message.author);
-}
-
-function getNotificationBody(message: Message, channel: Channel): string {
-    switch (message.type) {
-        case MessageTypes.CALL:
-            return "Started a call with you!";
-        case MessageTypes.CHANNEL_RECIPIENT_ADD: {
-            const actor = UserStore.getUser(message.author.id);
-            const userId = message.mentions[0]?.replace(/[<@!>]/g, "");
-            const targetUser = UserStore.getUser(userId);
-            return `${getName(targetUser)} was added to the group by ${getName(actor)}.`;
-        }
-        case MessageTypes.CHANNEL_RECIPIENT_REMOVE: {
-            const actor = UserStore.getUser(message.author.id);
-            const userId = message.mentions[0]?.replace(/[<@!>]/g, "");
-            const targetUser = UserStore.getUser(userId);
-            return actor.id !== targetUser.id
-                ? `${getName(targetUser)} was removed from the group by ${getName(actor)}.`
-                : "Left the group.";
-        }
-        case MessageTypes.CHANNEL_NAME_CHANGE:
-            return `Changed the channel name to '${message.content}'.`;
-        case MessageTypes.CHANNEL_ICON_CHANGE:
-            return "Changed the channel icon.";
-        case MessageTypes.CHANNEL_PINNED_MESSAGE:
-            return "Pinned a message.";
-        default:
-            if (message.embeds?.length) return message.content || "Sent an embed.";
-            if (message.stickerItems) return message.content || "Sent a sticker.";
-            if (message.attachments?.length) {
-                const images = message.attachments.filter(e => e?.content_type?.startsWith("image"));
-                if (images.length) return message.content || "";
-                return (message.content || "") + ` [Attachment: ${message.attachments[0].filename}]`;
-            }
-            return message.content;
+        return channelName;
     }
+    if (channel.guild_id) return `#${channel.name}`;
 }
 
 function buildNotificationData(
@@ -265,31 +536,50 @@ function buildNotificationData(
     channel: Channel,
     onClick: () => void
 ): NotificationData {
-    let body = getNotificationBody(message, channel);
-    body = formatEmotes(body);
-
-    const richBodyElements =
-        (message.mentions?.length || message.mentionRoles?.length)
-            ? parseMentions(body, channel)
-            : null;
+    const author = getNotificationAuthor(message, channel);
+    const location = getNotificationLocation(channel);
 
     const notification: NotificationData = {
-        title: getNotificationTitle(message, channel),
+        title: location ? `${author} (${location})` : author,
+        author,
+        location,
+        formatTitle: (author, location) => location ? `${author} (${location})` : author,
         icon: getAvatarURL(message.author),
-        body: limitMessageLength(body, !!message.attachments?.length),
+        ...getMessageBody(message, channel),
         attachments: message.attachments?.length,
-        richBody: richBodyElements?.length
-            ? <>{richBodyElements}</>
-            : null,
         permanent: false,
+        category: message.type === MessageTypes.CALL
+            ? NotificationCategory.CALL
+            : channel.guild_id
+                ? NotificationCategory.GUILD_MESSAGE
+                : channel.isGroupDM() ? NotificationCategory.GROUP_MESSAGE : NotificationCategory.DIRECT_MESSAGE,
+        channelId: channel.id,
+        guildId: channel.guild_id,
+        userId: message.author.id,
+        messageId: message.id,
         onClick,
     };
 
+    if (settings.store.actionButtons) {
+        notification.actions = [
+            { label: "Mark as read", onClick: () => markChannelAsRead(channel.id, message.id) },
+            { label: "Mute channel for 1h", onClick: () => muteChannel(channel.guild_id ?? null, channel.id, 60 * 60) }
+        ];
+    }
+
+    if (!channel.guild_id && settings.store.quickReply)
+        notification.onReply = content => sendMessage(message.channel_id, { content });
+
     if (message.attachments?.length) {
         const images = message.attachments.filter(e => e?.content_type?.startsWith("image"));
         if (images.length) notification.image = images[0].url;
     }
 
+    if (settings.store.renderImages) {
+        notification.media = getMediaPreviews(message, channel);
+        notification.embeds = getEmbedPreviews(message, channel);
+    }
+
     return notification;
 }
 
@@ -302,35 +592,85 @@ export default definePlugin({
         { name: "Buzzy", id: 1273353654644117585n }
     ],
     settings,
+
+    patches: [
+        {
+            find: "toolbar:function",
+            replacement: {
+                match: /(function \i\(\i\){)(.{1,200}toolbar.{1,100}mobileToolbar)/,
+                replace: "$1$self.addHistoryButton(arguments[0]);$2"
+            }
+        },
+        {
+            find: ".USER_RELATIONSHIP(",
+            replacement: {
+                match: /removeRelationship\((\i)(?:,\i)*\){/,
+                replace: "$&$self.trackOwnRemoval($1);"
+            }
+        }
+    ],
+
+    commands: [
+        {
+            name: "toasthistory",
+            description: "Open the toast notification history",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: () => openHistoryModal()
+        }
+    ],
+
+    trackOwnRemoval,
+
+    addHistoryButton(e: { toolbar: ReactNode[] | ReactNode; }) {
+        if (!settings.store.historyButton) return;
+
+        const button = (
+            <ErrorBoundary noop key="toastnotifications-history">
+                <HistoryButton />
+            </ErrorBoundary>
+        );
+
+        if (Array.isArray(e.toolbar))
+            return e.toolbar.unshift(button);
+
+        e.toolbar = [button, e.toolbar];
+    },
+
     flux: {
         async MESSAGE_CREATE({ message }: { message: Message; }) {
             const channel = ChannelStore.getChannel(message.channel_id);
             const currentUser = UserStore.getCurrentUser();
 
-            const isStreaming =
-                Vencord.Webpack.findStore("ApplicationStreamingStore")
-                    .getState().activeStreams?.length >= 1;
-            const streamerMode = settings.store.disableInStreamerMode;
-            const currentUserStreamerMode =
-                Vencord.Webpack.findStore("StreamerModeStore").enabled;
+            // Ringing calls get their own notification, driven by the call events.
+            if (message.type === MessageTypes.CALL && settings.store.callToasts) {
+                if (message.author.id !== currentUser.id) recordCaller(channel.id, message.author);
+                return;
+            }
+
+            const rules = evaluateRules({
+                userId: message.author.id,
+                channelId: channel.id,
+                guildId: channel.guild_id,
+                content: message.content
+            });
 
             if (
-                streamerMode && currentUserStreamerMode ||
-                isStreaming && settings.store.streamingTreatment === StreamingTreatment.IGNORE ||
                 message.author.id === currentUser.id ||
                 channel.id === SelectedChannelStore.getChannelId() ||
-                ignoredUsers.includes(message.author.id)
+                rules.verdict === RuleAction.BLOCK
             ) return;
 
             if (channel.guild_id) {
-                await handleGuildMessage(message);
+                await handleGuildMessage(message, rules);
                 return;
             }
 
             if (
-                (!settings.store.directMessages && channel.isDM()) ||
-                (!settings.store.groupMessages && channel.isGroupDM()) ||
-                MuteStore.isChannelMuted(null, channel.id)
+                rules.verdict !== RuleAction.ALLOW && (
+                    (!settings.store.directMessages && channel.isDM()) ||
+                    (!settings.store.groupMessages && channel.isGroupDM()) ||
+                    MuteStore.isChannelMuted(null, channel.id)
+                )
             ) return;
 
             const notification = buildNotificationData(
@@ -338,39 +678,167 @@ export default definePlugin({
                 channel,
                 () => SelectedChannelActionCreators.selectPrivateChannel(message.channel_id)
             );
+            notification.silent = willDiscordPlaySound(!MuteStore.isChannelMuted(null, channel.id));
 
-            if (
-                (isStreaming && settings.store.streamingTreatment === StreamingTreatment.NO_CONTENT) ||
-                settings.store.disableMessageBody
-            ) {
-                notification.body = "Message content has been redacted.";
-                notification.richBody = null;
-            }
+            applyRuleResult(notification, rules);
+            if (summarizeBurst(notification)) return;
+            deliverNotification(notification);
+        },
+
+        MESSAGE_ACK({ channelId, messageId }: { channelId: string; messageId: string; }) {
+            handleMessageAck(channelId, messageId);
+        },
+
+        BULK_ACK({ channels }: { channels: { channelId: string; messageId: string; }[]; }) {
+            channels.forEach(({ channelId, messageId }) => handleMessageAck(channelId, messageId));
+        },
+
+        CHANNEL_SELECT({ channelId }: { channelId: string | null; }) {
+            if (channelId) handleChannelSelect(channelId);
+        },
+
+        MESSAGE_UPDATE({ message }: { message: Message; }) {
+            handleMessageUpdate(message);
+        },
 
-            showNotification(notification);
+        MESSAGE_DELETE({ id }: { id: string; }) {
+            handleMessageDelete(id);
         },
 
         async RELATIONSHIP_ADD({ relationship }) {
-            if (ignoredUsers.includes(relationship.user.id)) return;
-            relationshipAdd(relationship.user, relationship.type);
+            const previousType = getPreviousRelationshipType(relationship.user.id);
+            trackRelationship(relationship.user.id, relationship.type);
+
+            const rules = evaluateRules({ userId: relationship.user.id });
+            if (rules.verdict === RuleAction.BLOCK) return;
+            relationshipAdd(relationship.user, relationship.type, previousType, rules);
+        },
+
+        async RELATIONSHIP_REMOVE({ relationship }: { relationship: { id: string; type: RelationshipType; }; }) {
+            const previousType = getPreviousRelationshipType(relationship.id);
+            trackRelationship(relationship.id, null);
+
+            if (
+                wasRemovedByMe(relationship.id) ||
+                !settings.store.friendActivity ||
+                !settings.store.friendRemoved ||
+                previousType !== RelationshipType.FRIEND
+            ) return;
+
+            const rules = evaluateRules({ userId: relationship.id });
+            if (rules.verdict === RuleAction.BLOCK) return;
+
+            const user = UserStore.getUser(relationship.id);
+            if (!user) return;
+
+            const notification: NotificationData = {
+                title: `${user.username} is no longer your friend`,
+                author: user.username,
+                formatTitle: author => `${author} is no longer your friend`,
+                icon: getAvatarURL(user),
+                body: "You are no longer friends with them.",
+                attachments: 0,
+                category: NotificationCategory.FRIEND,
+                userId: user.id
+            };
+
+            applyRuleResult(notification, rules);
+            await deliverNotification(notification);
+        },
+
+        PRESENCE_UPDATES({ updates }: { updates: PresenceUpdate[]; }) {
+            updates.forEach(handlePresenceUpdate);
+        },
+
+        CALL_CREATE({ channelId, ringing }: { channelId: string; ringing: string[]; }) {
+            handleCallRinging(channelId, ringing);
+        },
+
+        CALL_UPDATE({ channelId, ringing }: { channelId: string; ringing: string[]; }) {
+            handleCallRinging(channelId, ringing);
+        },
+
+        CALL_DELETE({ channelId }: { channelId: string; }) {
+            handleCallEnded(channelId);
         }
     },
 
     start() {
-        ignoredUsers = stringToList(settings.store.ignoreUsers);
-        notifyFor = stringToList(settings.store.notifyFor);
+        migrateLegacyLists();
+        migrateLegacyPrivacySettings();
+        requestNativePermission();
         setFadeInDurationCSS(settings.store.fadeInDuration);
+        setExitDurationCSS(settings.store.exitDuration);
         setFinalOpacityCSS(settings.store.opacity);
+        setWidthCSS(settings.store.width);
+        setBorderRadiusCSS(settings.store.borderRadius);
+        loadHistory();
+        snapshotFriends();
+        quietHoursInterval = setInterval(flushHeldNotifications, 30_000);
+        addKeybindListener();
+    },
+
+    stop() {
+        removeKeybindListener();
+        clearInterval(quietHoursInterval);
+        clearHeldNotifications();
     }
 });
 
+/**
+ * Shows a notification raised by a Discord event or another plugin, taking the privacy profile and active quiet hours into account.
+ * @returns A promise resolving once the notification has been closed, or null if it was dropped or held back.
+ */
+export function deliverNotification(notification: NotificationData, key?: string): Promise<void> | null {
+    if (!applyPrivacyProfile(notification)) return null;
+
+    switch (getQuietTreatment()) {
+        case QuietTreatment.DROP:
+            return null;
+        case QuietTreatment.HOLD:
+            holdNotification(notification);
+            return null;
+        case QuietTreatment.REDACT:
+            redactNotification(notification);
+            break;
+    }
+
+    return showNotification(notification, key);
+}
+
 enum NotificationLevel {
     ALL_MESSAGES = 0,
     ONLY_MENTIONS = 1,
     NO_MESSAGES = 2
 }
 
+/**
+ * Joined threads and followed forum posts use their own notification setting, falling back to the parent channel's.
+ * Threads you haven't joined only notify on mentions, like in Discord.
+ */
+function findThreadNotificationLevel(thread: Channel): NotificationLevel {
+    const parent = getParentChannel(thread);
+    const parentLevel = parent ? findNotificationLevel(parent) : NotificationLevel.NO_MESSAGES;
+
+    if (!JoinedThreadsStore.hasJoined(thread.id))
+        return Math.max(parentLevel, NotificationLevel.ONLY_MENTIONS);
+
+    if (
+        !settings.store.determineServerNotifications ||
+        MuteStore.isGuildOrCategoryOrChannelMuted(thread.guild_id, thread.parent_id) ||
+        JoinedThreadsStore.isMuted(thread.id)
+    ) return NotificationLevel.NO_MESSAGES;
+
+    const flags: number = JoinedThreadsStore.flags(thread.id) ?? 0;
+    if (flags & ThreadMemberFlags.ALL_MESSAGES) return NotificationLevel.ALL_MESSAGES;
+    if (flags & ThreadMemberFlags.ONLY_MENTIONS) return NotificationLevel.ONLY_MENTIONS;
+    if (flags & ThreadMemberFlags.NO_MESSAGES) return NotificationLevel.NO_MESSAGES;
+    return parentLevel;
+}
+
 function findNotificationLevel(channel: Channel): NotificationLevel {
+    if (channel.isThread()) return findThreadNotificationLevel(channel);
+
     const store = Vencord.Webpack.findStore("UserGuildSettingsStore");
     const userGuildSettings = store.getAllSettings().userGuildSettings[channel.guild_id];
 
@@ -389,17 +857,22 @@ function findNotificationLevel(channel: Channel): NotificationLevel {
     return NotificationLevel.NO_MESSAGES;
 }
 
-async function handleGuildMessage(message: Message) {
+async function handleGuildMessage(message: Message, rules: RuleResult) {
     const channel = ChannelStore.getChannel(message.channel_id);
-    const notificationLevel = findNotificationLevel(channel);
+    // A new forum post is a thread nobody has joined yet, so it notifies like a message in the forum itself.
+    const notificationLevel = isForumPost(message, channel)
+        ? findNotificationLevel(getParentChannel(channel)!)
+        : findNotificationLevel(channel);
 
-    const all = notifyFor.includes(message.channel_id);
+    const all = rules.verdict === RuleAction.ALLOW;
     const friend =
         settings.store.friendServerNotifications &&
         RelationshipStore.isFriend(message.author.id);
 
+    const mention = getMention(message, channel);
+    const isMention = !!mention;
+
     if (!all && !friend) {
-        const isMention = message.content.includes(`<@${UserStore.getCurrentUser().id}>`);
         const meetsMentionCriteria =
             notificationLevel !== NotificationLevel.ALL_MESSAGES && !isMention;
         if (
@@ -411,48 +884,99 @@ async function handleGuildMessage(message: Message) {
     const notification = buildNotificationData(
         message,
         channel,
-        () => switchChannels(channel.guild_id, channel.id)
+        () => channel.isThread() ? openThread(channel) : switchChannels(channel.guild_id, channel.id)
     );
-
-    const isStreaming =
-        Vencord.Webpack.findStore("ApplicationStreamingStore")
-            .getState().activeStreams?.length >= 1;
-
-    if (
-        (isStreaming && settings.store.streamingTreatment === StreamingTreatment.NO_CONTENT) ||
-        settings.store.disableMessageBody
-    ) {
-        notification.body = "Message content has been redacted.";
-        notification.richBody = null;
+    if (mention) {
+        notification.category = NotificationCategory.MENTION;
+        notification.reason = mention.label;
+    } else if (all) {
+        notification.reason = "Matched an always notify rule";
+    } else if (friend && notificationLevel !== NotificationLevel.ALL_MESSAGES) {
+        notification.reason = "Sent by a friend";
     }
+    notification.silent = willDiscordPlaySound(
+        notificationLevel === NotificationLevel.ALL_MESSAGES ||
+        isMention && notificationLevel !== NotificationLevel.NO_MESSAGES
+    );
 
-    await showNotification(notification);
+    applyRuleResult(notification, rules);
+    if (summarizeBurst(notification)) return;
+    await deliverNotification(notification);
 }
 
-async function relationshipAdd(user: User, type: Number) {
+async function relationshipAdd(user: User, type: RelationshipType, previousType: RelationshipType | undefined, rules: RuleResult) {
     if (!settings.store.friendActivity) return;
     user = UserStore.getUser(user.id);
 
     const notification: NotificationData = {
         title: "",
+        author: user.username,
         icon: getAvatarURL(user),
         body: "",
         attachments: 0,
+        category: NotificationCategory.FRIEND,
+        userId: user.id,
     };
 
-    if (type === RelationshipType.FRIEND) {
-        notification.title = `${user.username} is now your friend`;
+    if (type === RelationshipType.FRIEND && previousType === RelationshipType.OUTGOING_REQUEST) {
+        if (!settings.store.friendRequestAccepted) return;
+        notification.formatTitle = author => `${author} accepted your friend request`;
+        notification.body = "You can now message them directly.";
+        notification.onClick = () => openDirectMessage(user.id);
+    } else if (type === RelationshipType.FRIEND) {
+        notification.formatTitle = author => `${author} is now your friend`;
         notification.body = "You can now message them directly.";
         notification.onClick = () => switchChannels(null, user.id);
     } else if (type === RelationshipType.INCOMING_REQUEST) {
-        notification.title = `${user.username} sent you a friend request`;
+        notification.formatTitle = author => `${author} sent you a friend request`;
         notification.body = "You can accept or decline it in the Friends tab.";
         notification.onClick = () => switchChannels(null, "");
+        if (settings.store.actionButtons) {
+            notification.actions = [
+                {
+                    label: "Accept",
+                    onClick: () => RelationshipActionCreators.addRelationship({ userId: user.id, context: { location: "ToastNotifications" } })
+                },
+                {
+                    label: "Ignore",
+                    onClick: () => RelationshipActionCreators.removeRelationship(user.id, { location: "ToastNotifications" })
+                }
+            ];
+        }
     } else {
         return;
     }
 
-    await showNotification(notification);
+    notification.title = notification.formatTitle!(user.username);
+
+    applyRuleResult(notification, rules);
+    await deliverNotification(notification);
+}
+
+function markChannelAsRead(channelId: string, messageId: string) {
+    FluxDispatcher.dispatch({
+        type: "BULK_ACK",
+        context: "APP",
+        channels: [{ channelId, messageId, readStateType: 0 }]
+    });
+}
+
+function muteChannel(guildId: string | null, channelId: string, seconds: number) {
+    UserGuildSettingsActionCreators.updateChannelOverrideSettings(guildId, channelId, {
+        muted: true,
+        mute_config: {
+            selected_time_window: seconds,
+            end_time: new Date(Date.now() + seconds * 1000).toISOString()
+        }
+    });
+}
+
+export function openPrivateChannel(channelId: string) {
+    SelectedChannelActionCreators.selectPrivateChannel(channelId);
+}
+
+export function openDirectMessage(userId: string) {
+    PrivateChannelActionCreators.openPrivateChannel(userId);
 }
 
 function switchChannels(guildId: string | null, channelId: string) {
@@ -460,6 +984,24 @@ function switchChannels(guildId: string | null, channelId: string) {
     NavigationRouter.transitionTo(`/channels/${guildId ?? "@me"}/${channelId}/`);
 }
 
+function openThread(thread: Channel) {
+    if (!ChannelStore.hasChannel(thread.id)) return;
+    ChannelRouter.transitionToThread(thread);
+}
+
+export function openHistoryEntry(entry: HistoryEntry) {
+    const channel = entry.channelId ? ChannelStore.getChannel(entry.channelId) : undefined;
+
+    if (channel?.isThread())
+        openThread(channel);
+    else if (entry.channelId && entry.guildId)
+        switchChannels(entry.guildId, entry.channelId);
+    else if (entry.channelId)
+        SelectedChannelActionCreators.selectPrivateChannel(entry.channelId);
+    else
+        NavigationRouter.transitionTo("/channels/@me");
+}
+
 function showExampleNotification(): Promise<void> {
     const user = UserStore.getCurrentUser();
     return showNotification({
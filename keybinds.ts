@@ -0,0 +1,107 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { dismissAllNotifications, dismissNotification, getVisibleNotificationKeys, openNotification } from "./components/Notifications";
+import { settings } from "./index";
+
+interface Keybind {
+    ctrl: boolean;
+    alt: boolean;
+    shift: boolean;
+    meta: boolean;
+    key: string;
+}
+
+const MODIFIERS = ["ctrl", "alt", "shift", "meta"];
+
+function parseKeybind(str: string): Keybind | null {
+    const parts = str.toLowerCase().split("+").map(part => part.trim()).filter(Boolean);
+    const key = parts.pop();
+    if (!key || MODIFIERS.includes(key) || parts.some(part => !MODIFIERS.includes(part))) return null;
+
+    return {
+        ctrl: parts.includes("ctrl"),
+        alt: parts.includes("alt"),
+        shift: parts.includes("shift"),
+        meta: parts.includes("meta"),
+        key
+    };
+}
+
+export function isValidKeybind(str: string): true | string {
+    if (!str || parseKeybind(str)) return true;
+    return "Keybinds are modifiers followed by a key, separated by +, such as ctrl+alt+n.";
+}
+
+function matchesKeybind(e: KeyboardEvent, str: string): boolean {
+    const keybind = str && parseKeybind(str);
+    return !!keybind &&
+        keybind.ctrl === e.ctrlKey &&
+        keybind.alt === e.altKey &&
+        keybind.shift === e.shiftKey &&
+        keybind.meta === e.metaKey &&
+        keybind.key === e.key.toLowerCase();
+}
+
+function getToastElement(key: string) {
+    return document.querySelector<HTMLElement>(`[data-toastnotifications-key="${key}"]`);
+}
+
+function getFocusedKey(): string | undefined {
+    const focused = document.activeElement?.closest("[data-toastnotifications-key]");
+    return focused?.getAttribute("data-toastnotifications-key") ?? undefined;
+}
+
+function focusToast(key: string | undefined) {
+    if (key) getToastElement(key)?.focus();
+}
+
+function focusNewest() {
+    focusToast(getVisibleNotificationKeys()[0]);
+}
+
+function focusNext() {
+    const keys = getVisibleNotificationKeys();
+    const index = keys.indexOf(getFocusedKey()!);
+    focusToast(keys[(index + 1) % keys.length]);
+}
+
+function dismissFocused() {
+    const key = getFocusedKey();
+    if (!key) return;
+
+    const keys = getVisibleNotificationKeys();
+    const next = keys[keys.indexOf(key) + 1] ?? keys[keys.indexOf(key) - 1];
+    dismissNotification(key);
+    // Wait for the stack to re-render before moving focus onto the next toast.
+    requestAnimationFrame(() => focusToast(next));
+}
+
+function onKeyDown(e: KeyboardEvent) {
+    const { store } = settings;
+    const actions: [string, () => void][] = [
+        [store.keybindFocus, focusNewest],
+        [store.keybindCycle, focusNext],
+        [store.keybindOpen, () => { const key = getFocusedKey(); if (key) openNotification(key); }],
+        [store.keybindDismiss, dismissFocused],
+        [store.keybindDismissAll, dismissAllNotifications]
+    ];
+
+    const action = actions.find(([keybind]) => matchesKeybind(e, keybind));
+    if (!action || !getVisibleNotificationKeys().length) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    action[1]();
+}
+
+export function addKeybindListener() {
+    document.addEventListener("keydown", onKeyDown, true);
+}
+
+export function removeKeybindListener() {
+    document.removeEventListener("keydown", onKeyDown, true);
+}
@@ -0,0 +1,211 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ChannelStore, GuildStore, MaskedLink, Parser, React, UserStore } from "@webpack/common";
+import { ReactNode } from "react";
+
+import { parseHighlights } from "./highlights";
+
+type FormattingType = "bold" | "italic" | "underline" | "strike" | "spoiler";
+type MentionType = "user" | "channel" | "role";
+
+export type MarkdownNode =
+    | { type: "text"; content: string; }
+    | { type: FormattingType; children: MarkdownNode[]; }
+    | { type: "code" | "codeBlock"; content: string; }
+    | { type: "link"; url: string; children: MarkdownNode[]; }
+    | { type: "mention"; mentionType: MentionType; id: string; }
+    | { type: "emoji"; name: string; id: string; animated: boolean; }
+    | { type: "unicodeEmoji"; content: string; };
+
+interface MarkdownRule {
+    match: RegExp;
+    formatting: boolean; // Whether the rule is markdown formatting, rather than a mention or emote that is always parsed.
+    parse(match: RegExpExecArray, formatting: boolean): MarkdownNode;
+}
+
+const formatted = (type: FormattingType) =>
+    (match: RegExpExecArray, formatting: boolean): MarkdownNode => ({ type, children: parseMarkdown(match[1], formatting) });
+
+// Rules are tried in order at the start of the remaining text, the first match wins.
+const RULES: MarkdownRule[] = [
+    { match: /^\\([^\w\s])/, formatting: true, parse: match => ({ type: "text", content: match[1] }) },
+    { match: /^```(?:[\w+-]*\n)?([\s\S]+?)```/, formatting: true, parse: match => ({ type: "codeBlock", content: match[1] }) },
+    { match: /^`([^`]+)`/, formatting: true, parse: match => ({ type: "code", content: match[1] }) },
+    { match: /^\|\|([\s\S]+?)\|\|/, formatting: true, parse: formatted("spoiler") },
+    { match: /^\*\*([\s\S]+?)\*\*(?!\*)/, formatting: true, parse: formatted("bold") },
+    { match: /^__([\s\S]+?)__(?!_)/, formatting: true, parse: formatted("underline") },
+    { match: /^~~([\s\S]+?)~~/, formatting: true, parse: formatted("strike") },
+    { match: /^\*(?=\S)([\s\S]+?)(?<=\S)\*(?!\*)/, formatting: true, parse: formatted("italic") },
+    { match: /^_(?=\S)([\s\S]+?)(?<=\S)_(?!\w)/, formatting: true, parse: formatted("italic") },
+    {
+        match: /^\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/,
+        formatting: true,
+        parse: (match, formatting) => ({ type: "link", url: match[2], children: parseMarkdown(match[1], formatting) })
+    },
+    {
+        match: /^<?(https?:\/\/[^\s<>]+[^\s<>.,:;"')\]])>?/,
+        formatting: true,
+        parse: match => ({ type: "link", url: match[1], children: [{ type: "text", content: match[1] }] })
+    },
+    { match: /^<@!?(\d{17,20})>/, formatting: false, parse: match => ({ type: "mention", mentionType: "user", id: match[1] }) },
+    { match: /^<#(\d{17,20})>/, formatting: false, parse: match => ({ type: "mention", mentionType: "channel", id: match[1] }) },
+    { match: /^<@&(\d{17,20})>/, formatting: false, parse: match => ({ type: "mention", mentionType: "role", id: match[1] }) },
+    {
+        match: /^<(a?):(\w+):(\d{17,20})>/,
+        formatting: false,
+        parse: match => ({ type: "emoji", animated: match[1] === "a", name: match[2], id: match[3] })
+    },
+    {
+        match: /^(?:\p{Regional_Indicator}{2}|\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?(?:\u200D\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?)*)/u,
+        formatting: false,
+        parse: match => ({ type: "unicodeEmoji", content: match[0] })
+    }
+];
+
+// Plain text runs up to the next character any rule could start with.
+const TEXT_REGEX = /^[\s\S][^\\`|*_~[<h\p{Extended_Pictographic}\p{Regional_Indicator}]*/u;
+
+/**
+ * Parses a message body into a tree of markdown nodes. Mentions and emotes are always parsed,
+ * the remaining markdown only when formatting is enabled.
+ */
+export function parseMarkdown(text: string, formatting: boolean): MarkdownNode[] {
+    const nodes: MarkdownNode[] = [];
+    let rest = text;
+
+    outer: while (rest) {
+        for (const rule of RULES) {
+            if (rule.formatting && !formatting) continue;
+
+            const match = rule.match.exec(rest);
+            if (!match) continue;
+
+            nodes.push(rule.parse(match, formatting));
+            rest = rest.slice(match[0].length);
+            continue outer;
+        }
+
+        const content = TEXT_REGEX.exec(rest)![0];
+        const last = nodes[nodes.length - 1];
+        if (last?.type === "text") last.content += content;
+        else nodes.push({ type: "text", content });
+        rest = rest.slice(content.length);
+    }
+
+    return nodes;
+}
+
+export interface RenderOptions {
+    maxLength: number; // Length the text is truncated to.
+    guildId?: string; // Guild to resolve role mentions in.
+    emojiImages: boolean; // Whether to render emoji as images rather than text.
+}
+
+interface RenderState extends RenderOptions {
+    remaining: number; // Characters left before the body is truncated.
+    key: number;
+}
+
+function getMentionName(type: MentionType, id: string, guildId?: string): string {
+    switch (type) {
+        case "user":
+            return `@${UserStore.getUser(id)?.username || "unknown-user"}`;
+        case "channel":
+            return `#${ChannelStore.getChannel(id)?.name || "unknown-channel"}`;
+        case "role":
+            return `@${(guildId && GuildStore.getGuild(guildId)?.getRole(id)?.name) || "unknown-role"}`;
+    }
+}
+
+/**
+ * Takes as much of the text as the remaining length allows, ending it with an ellipsis when it had to be cut.
+ */
+function takeText(text: string, state: RenderState): string | null {
+    if (state.remaining <= 0) return null;
+
+    if (text.length > state.remaining) {
+        const truncated = text.substring(0, Math.max(state.remaining - 3, 0)) + "...";
+        state.remaining = 0;
+        return truncated;
+    }
+
+    state.remaining -= text.length;
+    return text;
+}
+
+function renderNode(node: MarkdownNode, state: RenderState): ReactNode {
+    const key = state.key++;
+
+    switch (node.type) {
+        case "text": {
+            const text = takeText(node.content, state);
+            return text && <React.Fragment key={key}>{parseHighlights([text])}</React.Fragment>;
+        }
+        case "bold":
+            return <strong key={key}>{renderNodes(node.children, state)}</strong>;
+        case "italic":
+            return <em key={key}>{renderNodes(node.children, state)}</em>;
+        case "underline":
+            return <u key={key}>{renderNodes(node.children, state)}</u>;
+        case "strike":
+            return <s key={key}>{renderNodes(node.children, state)}</s>;
+        case "spoiler":
+            return <span key={key} className="toastnotifications-spoiler">{renderNodes(node.children, state)}</span>;
+        case "code":
+            return <code key={key} className="toastnotifications-inline-code">{takeText(node.content, state)}</code>;
+        case "codeBlock":
+            return <pre key={key} className="toastnotifications-code-block"><code>{takeText(node.content, state)}</code></pre>;
+        case "link":
+            // Discord's link component shows its "leaving Discord" warning, so masked links can't hide where they point.
+            return (
+                <span key={key} onClick={e => e.stopPropagation()}>
+                    <MaskedLink href={node.url}>{renderNodes(node.children, state)}</MaskedLink>
+                </span>
+            );
+        case "mention":
+            return (
+                <span key={key} className="toastnotifications-mention-class">
+                    {takeText(getMentionName(node.mentionType, node.id, state.guildId), state)}
+                </span>
+            );
+        case "emoji": {
+            if (!state.emojiImages) return takeText(`:${node.name}:`, state);
+            // Count emoji images as a single character.
+            if (!takeText(" ", state)) return null;
+            return (
+                <img
+                    key={key}
+                    className="toastnotifications-emoji"
+                    src={`https://cdn.discordapp.com/emojis/${node.id}.${node.animated ? "gif" : "webp"}?size=48&quality=lossless`}
+                    alt={`:${node.name}:`}
+                    draggable={false}
+                />
+            );
+        }
+        case "unicodeEmoji": {
+            if (!state.emojiImages) return takeText(node.content, state);
+            if (!takeText(" ", state)) return null;
+            return <span key={key} className="toastnotifications-emoji">{Parser.parse(node.content)}</span>;
+        }
+    }
+}
+
+function renderNodes(nodes: MarkdownNode[], state: RenderState): ReactNode[] {
+    const elements: ReactNode[] = [];
+    for (const node of nodes) {
+        if (state.remaining <= 0) break;
+        elements.push(renderNode(node, state));
+    }
+    return elements;
+}
+
+/**
+ * Renders parsed markdown, truncating its text to the given length without cutting through any markup.
+ */
+export function renderMarkdown(nodes: MarkdownNode[], options: RenderOptions): ReactNode[] {
+    return renderNodes(nodes, { ...options, remaining: options.maxLength, key: 0 });
+}
@@ -0,0 +1,70 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { findByPropsLazy } from "@webpack";
+import { GuildMemberStore, GuildStore, UserStore } from "@webpack/common";
+import { Channel, Message } from "discord-types/general";
+
+import { MentionReason } from "./types";
+
+export const MuteStore = findByPropsLazy("isSuppressEveryoneEnabled");
+
+// Mention fields of the MESSAGE_CREATE payload, which uses different names and shapes than the Message typings.
+interface MentionFields {
+    mentions?: (string | { id: string; })[];
+    mention_roles?: string[];
+    mentionRoles?: string[];
+    mention_everyone?: boolean;
+    mentionEveryone?: boolean;
+    referenced_message?: { author?: { id: string; }; } | null;
+}
+
+export interface Mention {
+    reason: MentionReason;
+    label: string; // Why the notification was shown, displayed on the toast.
+}
+
+function getMentionedUserIds(message: Message & MentionFields): string[] {
+    return (message.mentions ?? []).map(m => typeof m === "string" ? m.replace(/[<@!>]/g, "") : m.id);
+}
+
+/**
+ * Works out whether and how a guild message mentions the current user, like Discord does. Direct mentions and
+ * reply pings always count, role mentions and @everyone or @here only when the guild doesn't suppress them.
+ * @returns The strongest reason the message mentions the current user, or null if it doesn't.
+ */
+export function getMention(message: Message, channel: Channel): Mention | null {
+    const raw = message as Message & MentionFields;
+    const userId = UserStore.getCurrentUser().id;
+    const guildId = channel.guild_id;
+
+    const mentionsUser = getMentionedUserIds(raw).includes(userId);
+    const mentionsInContent = new RegExp(`<@!?${userId}>`).test(message.content ?? "");
+
+    if (mentionsInContent || mentionsUser && raw.referenced_message?.author?.id !== userId)
+        return { reason: MentionReason.USER, label: "Mentioned you" };
+
+    // Replies list the author of the replied message in the mentions only when they ping.
+    if (mentionsUser)
+        return { reason: MentionReason.REPLY, label: "Replied to you" };
+
+    if (!MuteStore.isSuppressRolesEnabled(guildId)) {
+        const memberRoles: string[] = GuildMemberStore.getMember(guildId, userId)?.roles ?? [];
+        const roleId = (raw.mention_roles ?? raw.mentionRoles ?? []).find(id => memberRoles.includes(id));
+        if (roleId) {
+            const roleName = GuildStore.getGuild(guildId)?.getRole(roleId)?.name;
+            return { reason: MentionReason.ROLE, label: roleName ? `Mentioned @${roleName}` : "Mentioned a role you have" };
+        }
+    }
+
+    if ((raw.mention_everyone ?? raw.mentionEveryone) && !MuteStore.isSuppressEveryoneEnabled(guildId)) {
+        return message.content?.includes("@here")
+            ? { reason: MentionReason.HERE, label: "Mentioned @here" }
+            : { reason: MentionReason.EVERYONE, label: "Mentioned @everyone" };
+    }
+
+    return null;
+}
@@ -0,0 +1,190 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { findByPropsLazy } from "@webpack";
+import { ChannelStore, RelationshipStore, UserStore } from "@webpack/common";
+import { Channel, Message, User } from "discord-types/general";
+
+import { NotificationData } from "./components/Notifications";
+import { isStreaming, settings } from "./index";
+import { parseMarkdown, renderMarkdown } from "./markdown";
+import { ChannelTypes, EmojiRendering, MessageFlags, MessageTypes } from "./types";
+
+const UserUtils = findByPropsLazy("getGlobalName");
+
+export function redactNotification(notification: NotificationData) {
+    notification.body = "Message content has been redacted.";
+    notification.richBody = null;
+    notification.reason = undefined;
+    notification.redacted = true;
+}
+
+function getMessageLengthLimit(hasAttachments: boolean): number {
+    return hasAttachments ? 30 : 165;
+}
+
+function limitMessageLength(body: string, hasAttachments: boolean): string {
+    const limit = getMessageLengthLimit(hasAttachments);
+    if (body?.length > limit) return body.substring(0, limit - 3) + "...";
+    return body;
+}
+
+export function getName(user: User): string {
+    return RelationshipStore.getNickname(user.id) ?? UserUtils.getName(user);
+}
+
+function shouldRenderEmojiImages(): boolean {
+    switch (settings.store.emojiRendering) {
+        case EmojiRendering.TEXT:
+            return false;
+        case EmojiRendering.TEXT_WHILE_STREAMING:
+            return !isStreaming();
+        default:
+            return true;
+    }
+}
+
+function formatEmotes(body: string): string {
+    return body.replace(/(<a?:\w+:\d+>)/g, match => `:${match.split(":")[1]}:`);
+}
+
+// Fields of the MESSAGE_CREATE payload missing from the Message typings.
+interface MessageExtras {
+    flags?: number;
+    poll?: { question?: { text?: string; }; };
+    referenced_message?: { author?: User; } | null;
+    attachments: { duration_secs?: number; }[];
+    embeds: { fields?: { name: string; value: string; }[]; }[];
+}
+
+function formatDuration(seconds = 0): string {
+    const rounded = Math.round(seconds);
+    return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, "0")}`;
+}
+
+export function getParentChannel(channel: Channel): Channel | undefined {
+    return channel.parent_id ? ChannelStore.getChannel(channel.parent_id) : undefined;
+}
+
+export function isForumPost(message: Message, channel: Channel): boolean {
+    const parent = getParentChannel(channel);
+    return message.id === channel.id &&
+        (parent?.type === ChannelTypes.GUILD_FORUM || parent?.type === ChannelTypes.GUILD_MEDIA);
+}
+
+function getReplyPrefix(message: Message & MessageExtras): string {
+    const author = message.referenced_message?.author;
+    if (!author) return "Replying: ";
+    const user = UserStore.getUser(author.id);
+    return `Replying to ${user ? getName(user) : author.username}: `;
+}
+
+function getContentBody(message: Message & MessageExtras): string {
+    if (message.flags && message.flags & MessageFlags.IS_VOICE_MESSAGE)
+        return `Voice message (${formatDuration(message.attachments[0]?.duration_secs)})`;
+    if (message.poll) return `Poll: ${message.poll.question?.text ?? ""}`;
+    if (message.embeds?.length) return message.content || "Sent an embed.";
+    if (message.stickerItems) return message.content || "Sent a sticker.";
+    if (message.attachments?.length) {
+        const images = message.attachments.filter(e => e?.content_type?.startsWith("image"));
+        if (images.length) return message.content || "";
+        return (message.content || "") + ` [Attachment: ${message.attachments[0].filename}]`;
+    }
+    return message.content;
+}
+
+function getNotificationBody(message: Message & MessageExtras, channel: Channel): string {
+    switch (message.type) {
+        case MessageTypes.CALL:
+            return "Started a call with you!";
+        case MessageTypes.CHANNEL_RECIPIENT_ADD: {
+            const actor = UserStore.getUser(message.author.id);
+            const userId = message.mentions[0]?.replace(/[<@!>]/g, "");
+            const targetUser = UserStore.getUser(userId);
+            return `${getName(targetUser)} was added to the group by ${getName(actor)}.`;
+        }
+        case MessageTypes.CHANNEL_RECIPIENT_REMOVE: {
+            const actor = UserStore.getUser(message.author.id);
+            const userId = message.mentions[0]?.replace(/[<@!>]/g, "");
+            const targetUser = UserStore.getUser(userId);
+            return actor.id !== targetUser.id
+                ? `${getName(targetUser)} was removed from the group by ${getName(actor)}.`
+                : "Left the group.";
+        }
+        case MessageTypes.CHANNEL_NAME_CHANGE:
+            return `Changed the channel name to '${message.content}'.`;
+        case MessageTypes.CHANNEL_ICON_CHANGE:
+            return "Changed the channel icon.";
+        case MessageTypes.CHANNEL_PINNED_MESSAGE:
+            return "Pinned a message.";
+        case MessageTypes.GUILD_BOOST:
+            return "Boosted the server!";
+        case MessageTypes.GUILD_BOOST_TIER_1:
+        case MessageTypes.GUILD_BOOST_TIER_2:
+        case MessageTypes.GUILD_BOOST_TIER_3:
+            return `Boosted the server! It has reached Level ${message.type - MessageTypes.GUILD_BOOST}!`;
+        case MessageTypes.THREAD_CREATED:
+            return `Started a thread: ${message.content}`;
+        case MessageTypes.STAGE_START:
+            return `Started a stage: ${message.content}`;
+        case MessageTypes.STAGE_END:
+            return `Ended the stage: ${message.content}`;
+        case MessageTypes.POLL_RESULT: {
+            const question = message.embeds?.[0]?.fields?.find(f => f.name === "poll_question_text")?.value;
+            return question ? `Poll ended: ${question}` : "A poll has ended.";
+        }
+        case MessageTypes.REPLY:
+            return getReplyPrefix(message) + getContentBody(message);
+        default:
+            if (isForumPost(message, channel))
+                return `New post in #${getParentChannel(channel)!.name}: ${channel.name}`;
+            return getContentBody(message);
+    }
+}
+
+/**
+ * Describes the messages whose body names the channel, thread or stage without naming it, for privacy profiles hiding the location.
+ */
+function getLocationlessBody(message: Message, channel: Channel): string | undefined {
+    switch (message.type) {
+        case MessageTypes.CHANNEL_NAME_CHANGE:
+            return "Changed the channel name.";
+        case MessageTypes.THREAD_CREATED:
+            return "Started a thread.";
+        case MessageTypes.STAGE_START:
+            return "Started a stage.";
+        case MessageTypes.STAGE_END:
+            return "Ended the stage.";
+        default:
+            if (isForumPost(message, channel)) return "New post.";
+    }
+}
+
+/**
+ * Renders the plain and rich body of a message, also used to update the toast when the message is edited.
+ */
+export function getMessageBody(message: Message, channel: Channel): Pick<NotificationData, "body" | "richBody" | "formatBody"> {
+    const rawBody = getNotificationBody(message as Message & MessageExtras, channel) ?? "";
+    const body = formatEmotes(rawBody);
+    const hasAttachments = !!message.attachments?.length;
+
+    const richBodyElements = renderMarkdown(parseMarkdown(rawBody, settings.store.renderMarkdown), {
+        maxLength: getMessageLengthLimit(hasAttachments),
+        guildId: channel.guild_id,
+        emojiImages: shouldRenderEmojiImages()
+    });
+
+    const limitedBody = limitMessageLength(body, hasAttachments);
+    const locationlessBody = getLocationlessBody(message, channel);
+
+    return {
+        body: limitedBody,
+        richBody: richBodyElements.length
+            ? <div className="toastnotifications-notification-p">{richBodyElements}</div>
+            : null,
+        formatBody: locationlessBody ? (_author, location) => location ? limitedBody : locationlessBody : undefined
+    };
+}
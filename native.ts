@@ -0,0 +1,67 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { NotificationData } from "./components/Notifications";
+import { settings } from "./index";
+import { DeliveryMode } from "./types";
+
+const NativeNotifications = new Map<string, Notification>();
+
+/**
+ * Asks for permission to show desktop notifications ahead of time, so deciding where to show one never has to wait.
+ */
+export async function requestNativePermission() {
+    if (
+        settings.store.deliveryMode === DeliveryMode.NATIVE_WHEN_UNFOCUSED &&
+        "Notification" in window &&
+        Notification.permission === "default"
+    ) await Notification.requestPermission();
+}
+
+export function shouldUseNativeNotification(): boolean {
+    return settings.store.deliveryMode === DeliveryMode.NATIVE_WHEN_UNFOCUSED &&
+        !document.hasFocus() &&
+        "Notification" in window &&
+        Notification.permission === "granted";
+}
+
+/**
+ * Shows the notification through the system's notification center rather than inside Discord.
+ * @returns A promise resolving once the notification has been closed.
+ */
+export function showNativeNotification(notification: NotificationData, key: string): Promise<void> {
+    return new Promise<void>(resolve => {
+        const nativeNotification = new Notification(notification.title, {
+            body: notification.body,
+            icon: notification.icon,
+            requireInteraction: !!notification.permanent,
+            silent: true // Sounds are played by the plugin itself.
+        });
+        NativeNotifications.set(key, nativeNotification);
+
+        nativeNotification.onclick = () => {
+            window.focus();
+            notification.onClick?.();
+            nativeNotification.close();
+        };
+
+        nativeNotification.onclose = () => {
+            if (NativeNotifications.get(key) === nativeNotification) NativeNotifications.delete(key);
+            notification.onClose?.();
+            resolve();
+        };
+    });
+}
+
+/**
+ * Closes a desktop notification, such as the one of a call that stopped ringing.
+ * @returns {boolean} Whether a desktop notification with the key was open.
+ */
+export function closeNativeNotification(key: string): boolean {
+    const nativeNotification = NativeNotifications.get(key);
+    nativeNotification?.close();
+    return !!nativeNotification;
+}
@@ -0,0 +1,91 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Channel, Message } from "discord-types/general";
+
+import { EmbedPreview, MediaPreview } from "./components/Notifications";
+
+const enum StickerFormat {
+    PNG = 1,
+    APNG = 2,
+    LOTTIE = 3,
+    GIF = 4
+}
+
+// Fields of the MESSAGE_CREATE payload the previews are built from, which the Message typings don't describe.
+interface RawAttachment {
+    url: string;
+    proxy_url?: string;
+    filename: string;
+    content_type?: string;
+}
+
+interface RawEmbed {
+    type?: string;
+    url?: string;
+    title?: string;
+    rawTitle?: string;
+    provider?: { name?: string; };
+    thumbnail?: { url?: string; proxy_url?: string; proxyURL?: string; };
+}
+
+interface RawSticker {
+    id: string;
+    format_type: StickerFormat;
+}
+
+interface StickerFields {
+    sticker_items?: RawSticker[];
+}
+
+function withQuery(url: string, query: string): string {
+    return url + (url.includes("?") ? "&" : "?") + query;
+}
+
+function isSpoiler(attachment: RawAttachment): boolean {
+    return attachment.filename?.startsWith("SPOILER_");
+}
+
+export function getMediaPreviews(message: Message, channel: Channel): MediaPreview[] {
+    const nsfw = !!channel.nsfw;
+    const previews: MediaPreview[] = [];
+
+    for (const attachment of (message.attachments ?? []) as RawAttachment[]) {
+        const url = attachment.proxy_url ?? attachment.url;
+        if (attachment.content_type?.startsWith("image"))
+            previews.push({ type: "image", url, blurred: nsfw || isSpoiler(attachment) });
+        else if (attachment.content_type?.startsWith("video"))
+            // The media proxy serves the first frame of a video when asked for an image format.
+            previews.push({ type: "video", url: withQuery(url, "format=jpeg"), blurred: nsfw || isSpoiler(attachment) });
+    }
+
+    const stickers = (message.stickerItems ?? (message as Message & StickerFields).sticker_items ?? []) as RawSticker[];
+    for (const sticker of stickers) {
+        if (sticker.format_type === StickerFormat.LOTTIE) continue;
+        const extension = sticker.format_type === StickerFormat.GIF ? "gif" : "png";
+        previews.push({ type: "sticker", url: `https://media.discordapp.net/stickers/${sticker.id}.${extension}?size=160`, blurred: false });
+    }
+
+    for (const embed of (message.embeds ?? []) as RawEmbed[]) {
+        const thumbnail = embed.thumbnail?.proxy_url ?? embed.thumbnail?.proxyURL ?? embed.thumbnail?.url;
+        if (!thumbnail) continue;
+        if (embed.type === "image") previews.push({ type: "image", url: thumbnail, blurred: nsfw });
+        else if (embed.type === "gifv") previews.push({ type: "video", url: thumbnail, blurred: nsfw });
+    }
+
+    return previews;
+}
+
+export function getEmbedPreviews(message: Message, channel: Channel): EmbedPreview[] {
+    return ((message.embeds ?? []) as RawEmbed[])
+        .filter(embed => embed.type !== "image" && embed.type !== "gifv" && (embed.title || embed.rawTitle))
+        .map(embed => ({
+            title: embed.title ?? embed.rawTitle,
+            siteName: embed.provider?.name,
+            thumbnail: embed.thumbnail?.proxy_url ?? embed.thumbnail?.proxyURL ?? embed.thumbnail?.url,
+            blurred: !!channel.nsfw
+        }));
+}
@@ -0,0 +1,140 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings } from "@api/Settings";
+import { UserStore } from "@webpack/common";
+
+import { NotificationData } from "./components/Notifications";
+import { isStreamerMode, isStreaming, settings } from "./index";
+import { redactNotification } from "./messageBody";
+import { NotificationCategory, PrivacyContext, PrivacyProfile, PrivacyProfiles } from "./types";
+
+// Profiles of accounts that haven't configured their own are stored under this key.
+export const DEFAULT_ACCOUNT = "";
+
+const EMPTY_PROFILE: PrivacyProfile = {
+    suppress: false,
+    hideTitle: false,
+    hideAuthor: false,
+    hideLocation: false,
+    hideAvatar: false,
+    hideImage: false,
+    hideBody: false
+};
+
+export const DEFAULT_PRIVACY_PROFILES: PrivacyProfiles = {
+    [PrivacyContext.NORMAL]: EMPTY_PROFILE,
+    [PrivacyContext.SCREEN_SHARING]: EMPTY_PROFILE,
+    [PrivacyContext.STREAMER_MODE]: { ...EMPTY_PROFILE, suppress: true }
+};
+
+const CategoryTitles: Partial<Record<NotificationCategory, string>> = {
+    [NotificationCategory.DIRECT_MESSAGE]: "New direct message",
+    [NotificationCategory.GROUP_MESSAGE]: "New group message",
+    [NotificationCategory.GUILD_MESSAGE]: "New server message",
+    [NotificationCategory.MENTION]: "New mention",
+    [NotificationCategory.FRIEND]: "Friend activity",
+    [NotificationCategory.CALL]: "Incoming call"
+};
+
+/**
+ * Streamer mode and screen sharing can be active at the same time, the normal profile only applies when neither is.
+ */
+export function getPrivacyContexts(): PrivacyContext[] {
+    const contexts: PrivacyContext[] = [];
+    if (isStreamerMode()) contexts.push(PrivacyContext.STREAMER_MODE);
+    if (isStreaming()) contexts.push(PrivacyContext.SCREEN_SHARING);
+    return contexts.length ? contexts : [PrivacyContext.NORMAL];
+}
+
+/**
+ * Combines the profiles of every active context, so the strictest setting of each wins.
+ */
+function getActivePrivacyProfile(): PrivacyProfile {
+    const profiles = getPrivacyProfiles();
+    return getPrivacyContexts().reduce<PrivacyProfile>((combined, context) => {
+        const profile = profiles[context];
+        return Object.fromEntries(
+            Object.entries(combined).map(([key, value]) => [key, value || profile[key as keyof PrivacyProfile]])
+        ) as PrivacyProfile;
+    }, EMPTY_PROFILE);
+}
+
+export function getAccountId(): string {
+    return UserStore.getCurrentUser()?.id ?? DEFAULT_ACCOUNT;
+}
+
+export function getPrivacyProfiles(accountId = getAccountId()): PrivacyProfiles {
+    const stored = settings.store.privacyProfiles;
+    return stored[accountId] ?? stored[DEFAULT_ACCOUNT] ?? DEFAULT_PRIVACY_PROFILES;
+}
+
+/**
+ * Hides the parts of the notification the privacy profiles of the current account and contexts ask for.
+ * @returns {boolean} Whether the notification may be shown at all.
+ */
+export function applyPrivacyProfile(notification: NotificationData): boolean {
+    const profile = getActivePrivacyProfile();
+    if (profile.suppress) return false;
+
+    if (profile.hideAvatar) notification.icon = undefined;
+
+    if (profile.hideImage) {
+        notification.image = undefined;
+        notification.media = undefined;
+        notification.embeds = undefined;
+    }
+
+    if (profile.hideBody) redactNotification(notification);
+
+    if (profile.hideTitle)
+        notification.title = (notification.category && CategoryTitles[notification.category]) || "New notification";
+
+    if (!profile.hideAuthor && !profile.hideLocation) return true;
+
+    // Rebuild the title and body from their parts, rather than searching the text for names that could be anywhere in it.
+    const author = (!profile.hideAuthor && notification.author) || "Someone";
+    const location = profile.hideLocation ? undefined : notification.location;
+
+    if (!profile.hideTitle && notification.formatTitle)
+        notification.title = notification.formatTitle(author, location);
+
+    if (!profile.hideBody && notification.formatBody) {
+        notification.body = notification.formatBody(author, location);
+        notification.richBody = null;
+    }
+
+    return true;
+}
+
+/**
+ * Converts the old `disableInStreamerMode`, `streamingTreatment` and `disableMessageBody` settings into the default privacy profiles.
+ */
+export function migrateLegacyPrivacySettings() {
+    const pluginSettings = Settings.plugins.ToastNotifications;
+    if (!["disableInStreamerMode", "streamingTreatment", "disableMessageBody"].some(key => key in pluginSettings)) return;
+
+    const profiles: PrivacyProfiles = {
+        [PrivacyContext.NORMAL]: { ...EMPTY_PROFILE, hideBody: !!pluginSettings.disableMessageBody },
+        [PrivacyContext.SCREEN_SHARING]: {
+            ...EMPTY_PROFILE,
+            suppress: pluginSettings.streamingTreatment === 2,
+            hideBody: !!pluginSettings.disableMessageBody || pluginSettings.streamingTreatment === 1
+        },
+        [PrivacyContext.STREAMER_MODE]: {
+            ...EMPTY_PROFILE,
+            suppress: pluginSettings.disableInStreamerMode ?? true,
+            hideBody: !!pluginSettings.disableMessageBody
+        }
+    };
+
+    delete pluginSettings.disableInStreamerMode;
+    delete pluginSettings.streamingTreatment;
+    delete pluginSettings.disableMessageBody;
+
+    if (!settings.store.privacyProfiles[DEFAULT_ACCOUNT])
+        settings.store.privacyProfiles = { ...settings.store.privacyProfiles, [DEFAULT_ACCOUNT]: profiles };
+}
@@ -0,0 +1,105 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { PresenceStore, UserStore } from "@webpack/common";
+
+import { openHistoryModal } from "./components/HistoryModal";
+import { NotificationData } from "./components/Notifications";
+import { addToHistory } from "./history";
+import { deliverNotification, settings } from "./index";
+import { QuietSchedule, QuietTreatment } from "./types";
+
+let heldNotifications: NotificationData[] = [];
+
+function toMinutes(time: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time?.trim() ?? "");
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+
+    return hours * 60 + minutes;
+}
+
+function isScheduleActive(schedule: QuietSchedule, now: Date): boolean {
+    const start = toMinutes(schedule.start);
+    const end = toMinutes(schedule.end);
+    if (start === null || end === null || start === end) return false;
+
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const today = now.getDay();
+    const yesterday = (today + 6) % 7;
+
+    if (start < end)
+        return schedule.days.includes(today) && minutes >= start && minutes < end;
+
+    // The period wraps past midnight, so it is either in the evening it started or the morning after.
+    return (schedule.days.includes(today) && minutes >= start) ||
+        (schedule.days.includes(yesterday) && minutes < end);
+}
+
+/**
+ * Returns how notifications should be treated right now, or null when no quiet period is active.
+ * Schedules take precedence over Discord's Do Not Disturb status, earlier schedules over later ones.
+ */
+export function getQuietTreatment(): QuietTreatment | null {
+    const now = new Date();
+    const schedule = settings.store.quietSchedules.find(s => isScheduleActive(s, now));
+    if (schedule) return schedule.treatment;
+
+    if (
+        settings.store.quietFollowDnd &&
+        PresenceStore.getStatus(UserStore.getCurrentUser()?.id) === "dnd"
+    ) return settings.store.quietDndTreatment;
+
+    return null;
+}
+
+export function holdNotification(notification: NotificationData) {
+    heldNotifications.push(notification);
+    addToHistory(notification);
+}
+
+function listNames(names: (string | undefined)[]): string | undefined {
+    const unique = [...new Set(names.filter((name): name is string => !!name))];
+    if (!unique.length) return;
+    return unique.length > 3 ? `${unique.slice(0, 3).join(", ")} and ${unique.length - 3} more` : unique.join(", ");
+}
+
+/**
+ * Delivers the notifications held during a quiet period as a single summary once it has ended.
+ * The summary waits out periods dropping notifications, and goes through the privacy profile like any other notification.
+ */
+export function flushHeldNotifications() {
+    const treatment = getQuietTreatment();
+    if (!heldNotifications.length || treatment === QuietTreatment.HOLD || treatment === QuietTreatment.DROP) return;
+
+    const held = heldNotifications;
+    heldNotifications = [];
+
+    // Names are kept apart from the body, so the privacy profile active once the summary is shown can still hide them.
+    const author = listNames(held.map(n => n.author));
+    const location = listNames(held.map(n => n.location));
+    const formatBody = (author?: string, location?: string) =>
+        author ? `From ${author}${location ? ` in ${location}` : ""}.` : "Open the history to see them.";
+
+    deliverNotification({
+        title: `${held.length} notification${held.length > 1 ? "s" : ""} during quiet hours`,
+        author,
+        location,
+        icon: held[held.length - 1].icon,
+        body: formatBody(author, location),
+        formatBody,
+        attachments: 0,
+        permanent: true,
+        onClick: openHistoryModal
+    });
+}
+
+export function clearHeldNotifications() {
+    heldNotifications = [];
+}
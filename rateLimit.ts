@@ -0,0 +1,115 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { canStackNotification, NotificationData, updateNotification } from "./components/Notifications";
+import { deliverNotification, settings } from "./index";
+import { applyPrivacyProfile } from "./privacy";
+import { NotificationCategory } from "./types";
+
+interface BurstSummary {
+    source: NotificationData; // Notification of the first message folded into the summary.
+    count: number; // Number of messages folded into the summary.
+    authors: Set<string>;
+    messageId?: string; // Most recent message folded into the summary.
+}
+
+const channelTimestamps = new Map<string, number[]>();
+let globalTimestamps: number[] = [];
+const summaries = new Map<string, BurstSummary>();
+
+function getSummaryKey(channelId: string): string {
+    return `burst-${channelId}`;
+}
+
+function getSummaryNotification(summary: BurstSummary): NotificationData {
+    const { source, count, authors, messageId } = summary;
+    const messages = `${count} new message${count > 1 ? "s" : ""}`;
+    const people = `${authors.size} ${authors.size === 1 ? "person" : "people"}`;
+
+    const formatBody = (author?: string, location?: string) =>
+        location ? `${messages} in ${location} from ${people}` : `${messages} from ${author ?? people}`;
+
+    return {
+        title: source.location ?? source.author ?? source.title,
+        author: source.author,
+        location: source.location,
+        body: formatBody(source.author, source.location),
+        formatTitle: (author, location) => location ?? author,
+        formatBody,
+        attachments: 0,
+        summary: true,
+        category: source.category,
+        channelId: source.channelId,
+        guildId: source.guildId,
+        messageId,
+        silent: source.silent,
+        onClick: source.onClick,
+        onClose: () => {
+            if (summaries.get(source.channelId!) === summary) summaries.delete(source.channelId!);
+        }
+    };
+}
+
+/**
+ * Records a toast for the channel, unless the channel or all channels together have reached their limit.
+ * @returns {boolean} Whether the limit was reached.
+ */
+function isRateLimited(channelId: string): boolean {
+    const now = Date.now();
+    const window = settings.store.rateLimitWindow * 1000;
+
+    const timestamps = (channelTimestamps.get(channelId) ?? []).filter(t => now - t < window);
+    globalTimestamps = globalTimestamps.filter(t => now - t < window);
+    channelTimestamps.set(channelId, timestamps);
+
+    const { channelRateLimit, globalRateLimit } = settings.store;
+    if (
+        (channelRateLimit && timestamps.length >= channelRateLimit) ||
+        (globalRateLimit && globalTimestamps.length >= globalRateLimit)
+    ) return true;
+
+    timestamps.push(now);
+    globalTimestamps.push(now);
+    return false;
+}
+
+/**
+ * Folds a message notification over the rate limit into a summary toast of its channel, showing the summary if it
+ * isn't already. Mentions are never folded, so they can't get lost in a busy channel, and neither are messages stacked
+ * onto the channel's toast, which don't add a toast of their own.
+ * @returns {boolean} Whether the notification was folded, in which case it must not be shown on its own.
+ */
+export function summarizeBurst(notification: NotificationData): boolean {
+    const { channelId } = notification;
+    if (
+        !channelId ||
+        notification.category === NotificationCategory.MENTION ||
+        canStackNotification(notification) ||
+        !isRateLimited(channelId)
+    ) return false;
+
+    let summary = summaries.get(channelId);
+    if (summary) {
+        summary.count++;
+        summary.messageId = notification.messageId;
+        if (notification.userId) summary.authors.add(notification.userId);
+
+        // Hide the same parts of the summary as when it was first shown.
+        const data = getSummaryNotification(summary);
+        if (applyPrivacyProfile(data) && updateNotification(getSummaryKey(channelId), { title: data.title, body: data.body, messageId: data.messageId }))
+            return true;
+    }
+
+    summary = {
+        source: notification,
+        count: 1,
+        authors: new Set(notification.userId ? [notification.userId] : []),
+        messageId: notification.messageId
+    };
+    summaries.set(channelId, summary);
+    deliverNotification(getSummaryNotification(summary), getSummaryKey(channelId));
+    return true;
+}
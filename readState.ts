@@ -0,0 +1,65 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ChannelStore } from "@webpack/common";
+import { Message } from "discord-types/general";
+
+import { dismissNotification, findNotifications, updateNotification } from "./components/Notifications";
+import { getMessageBody, redactNotification } from "./messageBody";
+import { applyPrivacyProfile } from "./privacy";
+import { evaluateRules } from "./rules";
+
+function isAtOrBefore(messageId: string, readMessageId: string): boolean {
+    return BigInt(messageId) <= BigInt(readMessageId);
+}
+
+/**
+ * Dismisses the toasts of a channel whose most recent message has been read, on this or another device.
+ */
+export function handleMessageAck(channelId: string, readMessageId: string) {
+    if (!readMessageId) return;
+
+    findNotifications(n => n.channelId === channelId && !!n.messageId && isAtOrBefore(n.messageId, readMessageId))
+        .forEach(({ key }) => dismissNotification(key));
+}
+
+export function handleChannelSelect(channelId: string) {
+    findNotifications(n => n.channelId === channelId)
+        .forEach(({ key }) => dismissNotification(key));
+}
+
+// Burst summaries outlive the individual messages folded into them.
+export function handleMessageDelete(messageId: string) {
+    findNotifications(n => n.messageId === messageId && !n.summary)
+        .forEach(({ key }) => dismissNotification(key));
+}
+
+/**
+ * Shows the edited content in the toasts of the message, hidden the same way as the original content.
+ */
+export function handleMessageUpdate(message: Message) {
+    // Updates without content only add embeds to the message.
+    if (typeof message.content !== "string") return;
+
+    const channel = ChannelStore.getChannel(message.channel_id);
+    if (!channel) return;
+
+    for (const { key, notification } of findNotifications(n => n.messageId === message.id && !n.summary)) {
+        const edited = { ...notification, ...getMessageBody(message, channel) };
+
+        const rules = evaluateRules({
+            userId: notification.userId!,
+            channelId: channel.id,
+            guildId: channel.guild_id,
+            content: message.content
+        });
+        // Toasts redacted by quiet hours keep their edits redacted as well.
+        if (rules.redact || notification.redacted) redactNotification(edited);
+        if (!applyPrivacyProfile(edited)) continue;
+
+        updateNotification(key, { body: edited.body, richBody: edited.richBody });
+    }
+}
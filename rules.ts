@@ -0,0 +1,119 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings } from "@api/Settings";
+
+import { NotificationData } from "./components/Notifications";
+import { getRuleRegex } from "./highlights";
+import { settings } from "./index";
+import { redactNotification } from "./messageBody";
+import { NotificationRule, RuleAction, RuleTarget } from "./types";
+
+export interface RuleContext {
+    userId: string;
+    channelId?: string;
+    guildId?: string;
+    content?: string;
+}
+
+export interface RuleResult {
+    verdict?: RuleAction.ALLOW | RuleAction.BLOCK; // Set by the first matching allow or block rule.
+    redact: boolean;
+    permanent: boolean;
+    timeout?: number;
+    sound?: string;
+}
+
+export function createRule(target: RuleTarget, value: string, action: RuleAction): NotificationRule {
+    return {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        target,
+        value,
+        action
+    };
+}
+
+function matchesRule(rule: NotificationRule, context: RuleContext): boolean {
+    const value = rule.value.trim();
+    if (!value) return false;
+
+    switch (rule.target) {
+        case RuleTarget.USER:
+            return context.userId === value;
+        case RuleTarget.CHANNEL:
+            return context.channelId === value;
+        case RuleTarget.GUILD:
+            return context.guildId === value;
+        case RuleTarget.KEYWORD:
+        case RuleTarget.REGEX:
+            return !!context.content && !!getRuleRegex(rule)?.test(context.content);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Walks the rules in order. The first matching allow or block rule decides whether the notification is shown,
+ * while every matching modifier rule is applied, earlier rules taking precedence.
+ */
+export function evaluateRules(context: RuleContext): RuleResult {
+    const result: RuleResult = { redact: false, permanent: false };
+
+    for (const rule of settings.store.rules) {
+        if (!matchesRule(rule, context)) continue;
+
+        switch (rule.action) {
+            case RuleAction.ALLOW:
+            case RuleAction.BLOCK:
+                result.verdict ??= rule.action;
+                break;
+            case RuleAction.REDACT:
+                result.redact = true;
+                break;
+            case RuleAction.PERMANENT:
+                result.permanent = true;
+                break;
+            case RuleAction.TIMEOUT:
+                if (rule.timeout) result.timeout ??= rule.timeout;
+                break;
+            case RuleAction.SOUND:
+                if (rule.sound) result.sound ??= rule.sound;
+                break;
+        }
+    }
+
+    return result;
+}
+
+export function applyRuleResult(notification: NotificationData, result: RuleResult) {
+    if (result.redact) redactNotification(notification);
+    if (result.permanent) notification.permanent = true;
+    if (result.timeout) notification.timeout = result.timeout;
+    if (result.sound) notification.sound = result.sound;
+}
+
+/**
+ * Converts the old comma-separated `notifyFor` and `ignoreUsers` settings, and the highlight keywords and regex, into rules.
+ */
+export function migrateLegacyLists() {
+    const pluginSettings = Settings.plugins.ToastNotifications;
+    const toList = (str?: string) => str ? str.replace(/\s/g, "").split(",").filter(Boolean) : [];
+    const toKeywords = (str?: string) => str ? str.split(",").map(keyword => keyword.trim()).filter(Boolean) : [];
+
+    const migrated = [
+        ...toList(pluginSettings.notifyFor).map(id => createRule(RuleTarget.CHANNEL, id, RuleAction.ALLOW)),
+        ...toList(pluginSettings.ignoreUsers).map(id => createRule(RuleTarget.USER, id, RuleAction.BLOCK)),
+        ...toKeywords(pluginSettings.highlightKeywords).map(keyword => createRule(RuleTarget.KEYWORD, keyword, RuleAction.ALLOW)),
+        ...(pluginSettings.highlightRegex ? [createRule(RuleTarget.REGEX, pluginSettings.highlightRegex, RuleAction.ALLOW)] : [])
+    ];
+
+    delete pluginSettings.notifyFor;
+    delete pluginSettings.ignoreUsers;
+    delete pluginSettings.highlightKeywords;
+    delete pluginSettings.highlightRegex;
+
+    if (migrated.length) settings.store.rules = [...settings.store.rules, ...migrated];
+}
@@ -0,0 +1,60 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2025 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { findByPropsLazy, findStoreLazy } from "@webpack";
+import { PresenceStore, UserStore } from "@webpack/common";
+
+import { NotificationData } from "./components/Notifications";
+import { isStreaming, isStreamerMode, settings } from "./index";
+import { NotificationCategory } from "./types";
+
+const SoundActions = findByPropsLazy("playSound");
+const NotificationSettingsStore = findStoreLazy("NotificationSettingsStore");
+
+function getCategorySound(category?: NotificationCategory): string {
+    switch (category) {
+        case NotificationCategory.DIRECT_MESSAGE:
+            return settings.store.soundDirectMessages;
+        case NotificationCategory.GROUP_MESSAGE:
+            return settings.store.soundGroupMessages;
+        case NotificationCategory.MENTION:
+            return settings.store.soundMentions;
+        case NotificationCategory.FRIEND:
+            return settings.store.soundFriendActivity;
+        case NotificationCategory.CALL:
+            return settings.store.soundCalls;
+        default:
+            return "";
+    }
+}
+
+/**
+ * Whether Discord itself plays its message sound for a message it notifies for.
+ */
+export function willDiscordPlaySound(notifies: boolean): boolean {
+    if (!notifies) return false;
+    if (PresenceStore.getStatus(UserStore.getCurrentUser()?.id) === "dnd") return false;
+    if (NotificationSettingsStore.getDisableAllSounds?.()) return false;
+    return !NotificationSettingsStore.getDisabledSounds?.()?.includes("message1");
+}
+
+export function playNotificationSound(notification: NotificationData) {
+    const sound = (notification.sound ?? getCategorySound(notification.category))?.trim();
+    if (!sound || notification.silent || isStreaming() || isStreamerMode()) return;
+
+    const volume = settings.store.soundVolume / 100;
+    try {
+        if (/^(https?:|data:)/i.test(sound)) {
+            const audio = new Audio(sound);
+            audio.volume = volume;
+            audio.play().catch(e => console.error("[ToastNotifications] Failed to play notification sound.", e));
+        } else {
+            SoundActions.playSound(sound, volume);
+        }
+    } catch (e) {
+        console.error("[ToastNotifications] Failed to play notification sound.", e);
+    }
+}
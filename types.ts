@@ -17,10 +17,146 @@
 */
 
 export const enum MessageTypes {
+    DEFAULT = 0,
     CHANNEL_RECIPIENT_ADD = 1,
     CHANNEL_RECIPIENT_REMOVE = 2,
     CALL = 3,
     CHANNEL_NAME_CHANGE = 4,
     CHANNEL_ICON_CHANGE = 5,
     CHANNEL_PINNED_MESSAGE = 6,
+    GUILD_BOOST = 8,
+    GUILD_BOOST_TIER_1 = 9,
+    GUILD_BOOST_TIER_2 = 10,
+    GUILD_BOOST_TIER_3 = 11,
+    THREAD_CREATED = 18,
+    REPLY = 19,
+    THREAD_STARTER_MESSAGE = 21,
+    STAGE_START = 27,
+    STAGE_END = 28,
+    POLL_RESULT = 46,
+}
+
+export const enum MessageFlags {
+    IS_VOICE_MESSAGE = 1 << 13,
+}
+
+// Notification settings of a joined thread, the flags Discord stores on the thread member.
+export const enum ThreadMemberFlags {
+    ALL_MESSAGES = 1 << 1,
+    ONLY_MENTIONS = 1 << 2,
+    NO_MESSAGES = 1 << 3
+}
+
+export const enum ChannelTypes {
+    GUILD_FORUM = 15,
+    GUILD_MEDIA = 16,
+}
+
+export const enum RuleTarget {
+    USER = "user",
+    CHANNEL = "channel",
+    GUILD = "guild",
+    KEYWORD = "keyword",
+    REGEX = "regex"
+}
+
+export const enum RuleAction {
+    ALLOW = "allow",
+    BLOCK = "block",
+    REDACT = "redact",
+    PERMANENT = "permanent",
+    TIMEOUT = "timeout",
+    SOUND = "sound"
+}
+
+export interface NotificationRule {
+    id: string;
+    target: RuleTarget;
+    value: string; // User, channel or guild id, or the keyword or regular expression to look for.
+    action: RuleAction;
+    timeout?: number; // Time in seconds, used by RuleAction.TIMEOUT.
+    sound?: string; // Discord sound name or audio URL, used by RuleAction.SOUND.
+}
+
+export const enum QuietTreatment {
+    DROP = "drop",
+    REDACT = "redact",
+    HOLD = "hold"
+}
+
+export interface QuietSchedule {
+    id: string;
+    days: number[]; // Days of the week the quiet period starts on, 0 being Sunday.
+    start: string; // Start time formatted as HH:MM.
+    end: string; // End time formatted as HH:MM, an end before the start continues into the next day.
+    treatment: QuietTreatment;
+}
+
+export const enum NotificationCategory {
+    DIRECT_MESSAGE = "dm",
+    GROUP_MESSAGE = "group",
+    GUILD_MESSAGE = "guild",
+    MENTION = "mention",
+    FRIEND = "friend",
+    CALL = "call"
+}
+
+export const enum DeliveryMode {
+    IN_APP = "in-app",
+    NATIVE_WHEN_UNFOCUSED = "native-when-unfocused"
+}
+
+export const enum EmojiRendering {
+    IMAGES = "images",
+    TEXT_WHILE_STREAMING = "text-while-streaming",
+    TEXT = "text"
+}
+
+export interface SourceSettings {
+    enabled: boolean;
+    rateLimit: number; // Maximum notifications per minute, 0 for no limit.
+}
+
+export const enum LayoutPreset {
+    COMPACT = "compact",
+    COMFORTABLE = "comfortable",
+    LARGE = "large"
+}
+
+export const enum AnimationStyle {
+    FADE = "fade",
+    SLIDE = "slide",
+    SCALE = "scale"
+}
+
+export const enum OverflowBehavior {
+    QUEUE = "queue",
+    DROP_OLDEST = "drop-oldest",
+    DROP_NEWEST = "drop-newest"
+}
+
+export const enum PrivacyContext {
+    NORMAL = "normal",
+    SCREEN_SHARING = "screen-sharing",
+    STREAMER_MODE = "streamer-mode"
+}
+
+export interface PrivacyProfile {
+    suppress: boolean; // Don't show notifications at all.
+    hideTitle: boolean; // Replace the title with what kind of notification it is.
+    hideAuthor: boolean;
+    hideLocation: boolean; // Hide channel, group and server names.
+    hideAvatar: boolean;
+    hideImage: boolean; // Hide images, attachment previews and embeds.
+    hideBody: boolean;
+}
+
+export type PrivacyProfiles = Record<PrivacyContext, PrivacyProfile>;
+
+export const enum MentionReason {
+    USER = "user",
+    REPLY = "reply",
+    ROLE = "role",
+    EVERYONE = "everyone",
+    HERE = "here"
 }